@@ -7,3 +7,9 @@ const PRESERVED_FILES = ['package.json', 'README.md'];
 for (const file of PRESERVED_FILES) {
   fs.copySync(file, path.join(LIB_PATH, file));
 }
+
+// Lets `mobx-failable/react` resolve to the React bindings.
+fs.writeJsonSync(path.join(LIB_PATH, 'react', 'package.json'), {
+  main: 'index.js',
+  typings: 'index',
+});
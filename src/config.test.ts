@@ -0,0 +1,272 @@
+import {configure} from './config';
+import {Failable} from './failable';
+import {Loadable} from './loadable';
+import {Mutation} from './mutation';
+import {settled} from './test-utils';
+
+describe('configure', () => {
+  const failureValue = new Error();
+
+  afterEach(() => {
+    configure({onFailure: undefined, onUnhandledFailure: undefined});
+  });
+
+  describe('onFailure', () => {
+    it('is invoked when a Failable becomes a failure', () => {
+      const onFailure = jest.fn();
+      configure({onFailure});
+      const f = new Failable<number>().failure(failureValue);
+
+      expect(onFailure).toBeCalledWith(
+        failureValue,
+        expect.stringMatching(/^Failable@/),
+      );
+      expect(f.isFailure).toBe(true);
+    });
+
+    it('is invoked when a Loadable becomes a failure', () => {
+      const onFailure = jest.fn();
+      configure({onFailure});
+      new Loadable<number>().failure(failureValue);
+
+      expect(onFailure).toBeCalledWith(
+        failureValue,
+        expect.stringMatching(/^Loadable@/),
+      );
+    });
+
+    it('is invoked when a derivation becomes a failure', () => {
+      const onFailure = jest.fn();
+      configure({onFailure});
+      const f = new Failable<number>();
+      f.map(() => {
+        throw failureValue;
+      });
+      f.success(1);
+
+      expect(onFailure).toHaveBeenCalledTimes(1);
+      expect(onFailure).toBeCalledWith(
+        failureValue,
+        expect.stringMatching(/^DerivedFailable@/),
+      );
+    });
+
+    it('is invoked when a combination becomes a failure', () => {
+      const onFailure = jest.fn();
+      configure({onFailure});
+      const f = new Failable<number>();
+      Failable.all([f]);
+      f.failure(failureValue);
+
+      expect(onFailure).toHaveBeenCalledTimes(2);
+      expect(onFailure).toBeCalledWith(
+        failureValue,
+        expect.stringMatching(/^CombinedFailable@/),
+      );
+    });
+
+    it('is invoked when a reloading derivation becomes a failure', () => {
+      const onFailure = jest.fn();
+      configure({onFailure});
+      const l = new Loadable<number>().success(1).loading();
+      const derived = l.map(() => {
+        throw failureValue;
+      });
+
+      expect(derived.isLoading).toBe(true);
+      expect(onFailure).toHaveBeenCalledTimes(1);
+      expect(onFailure).toBeCalledWith(
+        failureValue,
+        expect.stringMatching(/^DerivedLoadable@/),
+      );
+    });
+
+    it('is invoked when a busy combination becomes a failure', () => {
+      const onFailure = jest.fn();
+      const failed = new Loadable<number>().failure(failureValue);
+      configure({onFailure});
+      const combined = Loadable.all([failed, new Loadable<number>().loading()]);
+
+      expect(combined.isLoading).toBe(true);
+      expect(onFailure).toHaveBeenCalledTimes(1);
+      expect(onFailure).toBeCalledWith(
+        failureValue,
+        expect.stringMatching(/^CombinedLoadable@/),
+      );
+    });
+
+    it('is invoked once for a promise rejected within flatMap', async () => {
+      const onFailure = jest.fn();
+      configure({onFailure});
+      const l = new Loadable<number>().success(1);
+      l.flatMap(() => Promise.reject(failureValue));
+      await settled();
+
+      expect(onFailure).toHaveBeenCalledTimes(1);
+      expect(onFailure).toBeCalledWith(
+        failureValue,
+        expect.stringMatching(/^CombinedLoadable@/),
+      );
+    });
+
+    it('does not interrupt the failure when it throws', () => {
+      jest.useFakeTimers();
+      try {
+        configure({
+          onFailure: () => {
+            throw failureValue;
+          },
+        });
+        const f = new Failable<number>().failure(new Error());
+
+        expect(f.isFailure).toBe(true);
+        expect(() => jest.runAllTimers()).toThrow(failureValue);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('is not invoked when a Failable is cancelled', async () => {
+      const onFailure = jest.fn();
+      const onUnhandledFailure = jest.fn();
+      configure({onFailure, onUnhandledFailure});
+      const f = new Failable<number>().accept(new Promise<number>(() => 0));
+      const mapped = f.map(value => value + 1);
+      f.cancel();
+      await settled();
+
+      expect(f.isFailure).toBe(true);
+      expect(mapped.isFailure).toBe(true);
+      expect(onFailure).not.toBeCalled();
+      expect(onUnhandledFailure).not.toBeCalled();
+    });
+
+    it('is not invoked when a Mutation is cancelled', async () => {
+      const onFailure = jest.fn();
+      const onUnhandledFailure = jest.fn();
+      configure({onFailure, onUnhandledFailure});
+      const mutation = new Mutation<[], number>(
+        () => new Promise<number>(() => 0),
+        {mapError: error => new Error(error.message)},
+      );
+      mutation.run();
+      mutation.cancel();
+      await settled();
+
+      expect(mutation.isFailure).toBe(true);
+      expect(onFailure).not.toBeCalled();
+      expect(onUnhandledFailure).not.toBeCalled();
+    });
+
+    it('receives the name of the instance', () => {
+      const onFailure = jest.fn();
+      configure({onFailure});
+      new Loadable<number>({name: 'userProfile'}).failure(failureValue);
+
+      expect(onFailure).toBeCalledWith(failureValue, 'userProfile');
+    });
+
+    it('is not invoked for successes', () => {
+      const onFailure = jest.fn();
+      configure({onFailure});
+      new Loadable<number>().success(1);
+
+      expect(onFailure).not.toBeCalled();
+    });
+  });
+
+  describe('onUnhandledFailure', () => {
+    it('is invoked when a failure is not read within a tick', async () => {
+      const onUnhandledFailure = jest.fn();
+      configure({onUnhandledFailure});
+      new Failable<number>().failure(failureValue);
+      expect(onUnhandledFailure).not.toBeCalled();
+      await settled();
+
+      expect(onUnhandledFailure).toBeCalledWith(
+        failureValue,
+        expect.stringMatching(/^Failable@/),
+      );
+    });
+
+    it('is not invoked when a failure is read through match', async () => {
+      const onUnhandledFailure = jest.fn();
+      configure({onUnhandledFailure});
+      const f = new Failable<number>().failure(failureValue);
+      f.match({
+        success: () => undefined,
+        failure: () => undefined,
+        pending: () => undefined,
+      });
+      await settled();
+
+      expect(onUnhandledFailure).not.toBeCalled();
+    });
+
+    it('is not invoked when a failure is read through failureOr', async () => {
+      const onUnhandledFailure = jest.fn();
+      configure({onUnhandledFailure});
+      const l = new Loadable<number>().failure(failureValue);
+      l.failureOr(undefined);
+      await settled();
+
+      expect(onUnhandledFailure).not.toBeCalled();
+    });
+
+    it('is not invoked when a failure is read through a derivation', async () => {
+      const onUnhandledFailure = jest.fn();
+      configure({onUnhandledFailure});
+      const l = new Loadable<number>();
+      const derived = l.map(value => value + 1);
+      l.failure(failureValue);
+      derived.failureOr(undefined);
+      await settled();
+
+      expect(onUnhandledFailure).not.toBeCalled();
+    });
+
+    it('is not invoked when a combined failure is read', async () => {
+      const onUnhandledFailure = jest.fn();
+      configure({onUnhandledFailure});
+      const f = new Failable<number>();
+      const combined = Failable.all([f]);
+      f.failure(failureValue);
+      combined.failureOr(undefined);
+      await settled();
+
+      expect(onUnhandledFailure).not.toBeCalled();
+    });
+
+    it('is invoked for an unread failure within flatMap', async () => {
+      const onUnhandledFailure = jest.fn();
+      configure({onUnhandledFailure});
+      const f = new Failable<number>().success(1);
+      f.flatMap(() => Promise.reject(failureValue));
+      await settled();
+      await settled();
+
+      expect(onUnhandledFailure).toHaveBeenCalledTimes(1);
+      expect(onUnhandledFailure).toBeCalledWith(
+        failureValue,
+        expect.stringMatching(/^CombinedFailable@/),
+      );
+    });
+
+    it('rethrows what it throws on a later tick', () => {
+      jest.useFakeTimers();
+      try {
+        configure({
+          onUnhandledFailure: () => {
+            throw failureValue;
+          },
+        });
+        new Failable<number>().failure(new Error());
+
+        expect(() => jest.runOnlyPendingTimers()).not.toThrow();
+        expect(() => jest.runOnlyPendingTimers()).toThrow(failureValue);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import {getDebugName} from 'mobx';
+
+/**
+ * A FailureHandler receives the error of a Future that became a failure, and
+ * the MobX debug name of that Future.
+ */
+export type FailureHandler = (error: Error, name: string) => void;
+
+/**
+ * Configuration customizes the library as a whole. The `onFailure` handler is
+ * invoked whenever a Failable, a Loadable, or a derivation of either becomes a
+ * failure. The `onUnhandledFailure` handler is invoked when such a failure is
+ * not read through `match`, or any method built on it such as `failureOr`,
+ * before the next tick. Reading a Future through a derivation counts as
+ * handling it.
+ */
+export interface Configuration {
+  onFailure?: FailureHandler;
+  onUnhandledFailure?: FailureHandler;
+}
+
+const configuration: Configuration = {};
+
+/**
+ * Maps Futures to the errors they failed with that are yet to be read.
+ */
+const unhandled = new WeakMap<object, Error>();
+
+/**
+ * Futures used internally by derivations, whose failures are reported by the
+ * derivations themselves, and errors of deliberate cancellations, which are
+ * not failures to report wherever they end up.
+ */
+const silenced = new WeakSet<object>();
+
+/**
+ * Configures the library as a whole. Only the given options are changed; an
+ * option can be unset by giving it as undefined.
+ * @param options The options to change
+ */
+export function configure(options: Configuration): void {
+  Object.assign(configuration, options);
+}
+
+/**
+ * Reports that the given Future became a failure to the configured handlers.
+ */
+export function reportFailure(future: object, error: Error): void {
+  if (silenced.has(future) || silenced.has(error)) {
+    return;
+  }
+  const {onFailure, onUnhandledFailure} = configuration;
+  if (onFailure) {
+    invoke(onFailure, future, error);
+  }
+  if (onUnhandledFailure) {
+    unhandled.set(future, error);
+    setTimeout(() => {
+      if (unhandled.get(future) === error) {
+        unhandled.delete(future);
+        invoke(onUnhandledFailure, future, error);
+      }
+    }, 0);
+  }
+}
+
+/**
+ * Invokes the given handler, rethrowing whatever it throws on a later tick,
+ * so that a throwing handler cannot interrupt the action that failed.
+ */
+function invoke(handler: FailureHandler, future: object, error: Error): void {
+  try {
+    handler(error, getDebugName(future));
+  } catch (e) {
+    setTimeout(() => {
+      throw e;
+    }, 0);
+  }
+}
+
+/**
+ * Stops reporting the failures of the given Future, which is only used
+ * internally by a derivation, or the failures with the given error.
+ */
+export function silence(target: object): void {
+  silenced.add(target);
+}
+
+/**
+ * Tells whether the given Future or error was silenced.
+ */
+export function isSilenced(target: object): boolean {
+  return silenced.has(target);
+}
+
+/**
+ * Marks the failure of the given Future, if any, as handled.
+ */
+export function markHandled(future: object): void {
+  unhandled.delete(future);
+}
@@ -0,0 +1,177 @@
+import {action} from 'mobx';
+
+import {failable, loadable} from './decorators';
+import {State} from './loadable/state';
+import {Deferred, deferred, settled} from './test-utils';
+
+describe('decorators', () => {
+  interface Request extends Deferred<string> {
+    args: any[];
+  }
+
+  const failureValue = new Error();
+
+  function make() {
+    const requests: Request[] = [];
+    const fetch = (...args: any[]) => {
+      const request = {args, ...deferred<string>()};
+      requests.push(request);
+      return request.promise;
+    };
+
+    class Store {
+      @failable
+      save(name: string) {
+        return fetch(name);
+      }
+
+      @loadable
+      fetchUser(id: number) {
+        return fetch(id);
+      }
+
+      @loadable({keyed: true})
+      fetchPost(id: number) {
+        return fetch(id);
+      }
+
+      @action.bound
+      @loadable
+      fetchBound() {
+        return fetch();
+      }
+    }
+
+    return {store: new Store(), requests};
+  }
+
+  describe('@failable', () => {
+    it('accepts the promise of every call', async () => {
+      const {store, requests} = make();
+      store.save('foo');
+      const future = failable.of(store, 'save');
+      expect(future.isPending).toBe(true);
+
+      requests[0].resolve('bar');
+      await settled();
+      expect(future.successOr(undefined)).toBe('bar');
+
+      store.save('baz');
+      requests[1].reject(failureValue);
+      await settled();
+      expect(future.failureOr(undefined)).toBe(failureValue);
+    });
+
+    it('returns the promise of the method', () => {
+      const {store, requests} = make();
+      const promise = store.save('foo');
+      requests[0].resolve('bar');
+
+      return expect(promise).resolves.toBe('bar');
+    });
+
+    it('attaches a Failable per instance', () => {
+      const first = make();
+      const second = make();
+      first.store.save('foo');
+
+      expect(failable.of(first.store, 'save')).not.toBe(
+        failable.of(second.store, 'save'),
+      );
+      expect(failable.of(first.store, 'save')).toBe(
+        failable.of(first.store, 'save'),
+      );
+    });
+  });
+
+  describe('@loadable', () => {
+    it('accepts the promise of every call', async () => {
+      const {store, requests} = make();
+      expect(loadable.of(store, 'fetchUser').state).toBe(State.empty);
+
+      store.fetchUser(1);
+      expect(loadable.of(store, 'fetchUser').state).toBe(State.pending);
+      requests[0].resolve('foo');
+      await settled();
+      expect(loadable.of(store, 'fetchUser').state).toBe(State.success);
+
+      store.fetchUser(2);
+      expect(loadable.of(store, 'fetchUser').state).toBe(State.reloading);
+    });
+
+    it('attaches a Loadable per argument tuple when keyed', async () => {
+      const {store, requests} = make();
+      store.fetchPost(1);
+      store.fetchPost(2);
+      requests[1].resolve('bar');
+      await settled();
+
+      expect(loadable.of(store, 'fetchPost', [1]).state).toBe(State.pending);
+      expect(loadable.of(store, 'fetchPost', [2]).successOr(undefined)).toBe(
+        'bar',
+      );
+    });
+
+    it('works along with @action.bound', async () => {
+      const {store, requests} = make();
+      const {fetchBound} = store;
+      fetchBound();
+      requests[0].resolve('foo');
+      await settled();
+
+      expect(loadable.of(store, 'fetchBound').successOr(undefined)).toBe('foo');
+    });
+  });
+
+  describe('evict', () => {
+    it('starts the method over with a new future', async () => {
+      const {store, requests} = make();
+      store.fetchUser(1);
+      const future = loadable.of(store, 'fetchUser');
+      loadable.evict(store, 'fetchUser');
+      requests[0].resolve('foo');
+      await settled();
+
+      expect(future.state).toBe(State.pending);
+      expect(loadable.of(store, 'fetchUser')).not.toBe(future);
+      expect(loadable.of(store, 'fetchUser').state).toBe(State.empty);
+    });
+
+    it('evicts the future of the given arguments when keyed', () => {
+      const {store} = make();
+      store.fetchPost(1);
+      store.fetchPost(2);
+      const first = loadable.of(store, 'fetchPost', [1]);
+      const second = loadable.of(store, 'fetchPost', [2]);
+      loadable.evict(store, 'fetchPost', [1]);
+
+      expect(loadable.of(store, 'fetchPost', [1])).not.toBe(first);
+      expect(loadable.of(store, 'fetchPost', [2])).toBe(second);
+    });
+
+    it('evicts every future of the method when keyed without arguments', () => {
+      const {store} = make();
+      store.fetchPost(1);
+      store.fetchPost(2);
+      const second = loadable.of(store, 'fetchPost', [2]);
+      loadable.evict(store, 'fetchPost');
+
+      expect(loadable.of(store, 'fetchPost', [2])).not.toBe(second);
+    });
+
+    it('throws when the method is not decorated accordingly', () => {
+      const {store} = make();
+
+      expect(() => failable.evict(store, 'fetchUser')).toThrow(TypeError);
+    });
+  });
+
+  describe('of', () => {
+    it('throws when the method is not decorated accordingly', () => {
+      const {store} = make();
+
+      expect(() => failable.of(store, 'fetchUser')).toThrow(TypeError);
+      expect(() => loadable.of(store, 'save')).toThrow(TypeError);
+    });
+  });
+});
@@ -0,0 +1,287 @@
+import {Failable} from './failable';
+import {Future} from './future';
+import {Loadable} from './loadable';
+
+type Method<T = any> = (...args: any[]) => PromiseLike<T>;
+
+type Result<M> = M extends (...args: any[]) => PromiseLike<infer T> ? T : never;
+
+type MethodDecorator<T> = <M extends Method<T>>(
+  target: object,
+  key: PropertyKey,
+  descriptor: TypedPropertyDescriptor<M>,
+) => TypedPropertyDescriptor<M>;
+
+/**
+ * DecoratorOptions customizes a method decorated with `@failable` or
+ * `@loadable`. With `keyed`, each argument tuple gets its own Future, told
+ * apart by its `hash`, which is the JSON of the arguments by default. The
+ * other options are passed along to `accept` whenever the method is called,
+ * typed after the result `T` of the method and the error `E` it maps to.
+ */
+export interface DecoratorOptions<T = any, E extends Error = Error>
+  extends Future.AcceptOptions<T, E> {
+  keyed?: boolean;
+  hash?: (args: any[]) => string;
+}
+
+interface Decoration {
+  kind: new () => Future<any, any>;
+  options: DecoratorOptions<any, any>;
+}
+
+/**
+ * Maps prototypes to how their methods were decorated, by method name.
+ */
+const decorations = new WeakMap<object, Map<PropertyKey, Decoration>>();
+
+/**
+ * Maps instances to the Futures backing their decorated methods, by method
+ * name and then by the hash of the arguments, if keyed.
+ */
+const futures = new WeakMap<
+  object,
+  Map<PropertyKey, Map<string, Future<any, any>>>
+>();
+
+function decorationOf(
+  instance: object,
+  key: PropertyKey,
+): Decoration | undefined {
+  // Decorations are found on the prototype chain, like the methods themselves.
+  for (
+    let target = instance;
+    target !== null;
+    target = Object.getPrototypeOf(target)
+  ) {
+    const methods = decorations.get(target);
+    if (methods && methods.has(key)) {
+      return methods.get(key);
+    }
+  }
+  return undefined;
+}
+
+function futureOf(
+  instance: object,
+  key: PropertyKey,
+  {kind, options}: Decoration,
+  args: any[],
+): Future<any, any> {
+  const {keyed = false, hash = JSON.stringify} = options;
+
+  let methods = futures.get(instance);
+  if (!methods) {
+    methods = new Map();
+    futures.set(instance, methods);
+  }
+  let hashes = methods.get(key);
+  if (!hashes) {
+    hashes = new Map();
+    methods.set(key, hashes);
+  }
+
+  const argsHash = keyed ? hash(args) : '';
+  let future = hashes.get(argsHash);
+  if (!future) {
+    future = new kind();
+    hashes.set(argsHash, future);
+  }
+  return future;
+}
+
+function decorator<T, E extends Error>(
+  kind: new () => Future<any, any>,
+  options: DecoratorOptions<T, E>,
+): MethodDecorator<T> {
+  const {keyed, hash, ...acceptOptions} = options;
+  const decoration = {kind, options};
+  return <M extends Method<T>>(
+    target: object,
+    key: PropertyKey,
+    descriptor: TypedPropertyDescriptor<M>,
+  ) => {
+    let methods = decorations.get(target);
+    if (!methods) {
+      methods = new Map();
+      decorations.set(target, methods);
+    }
+    methods.set(key, decoration);
+
+    const original = descriptor.value!;
+    const method = function(this: object, ...args: any[]) {
+      const promise = original.apply(this, args);
+      futureOf(this, key, decoration, args).accept(promise, acceptOptions);
+      return promise;
+    } as M;
+    return {...descriptor, value: method};
+  };
+}
+
+function checkDecoration(
+  kind: new () => Future<any, any>,
+  name: string,
+  instance: object,
+  key: PropertyKey,
+): Decoration {
+  const decoration = decorationOf(instance, key);
+  if (!decoration || decoration.kind !== kind) {
+    throw new TypeError(`Not decorated with @${name}: ${String(key)}`);
+  }
+  return decoration;
+}
+
+function lookup<S extends object, K extends keyof S>(
+  kind: new () => Future<any, any>,
+  name: string,
+  instance: S,
+  key: K,
+  args: any[],
+): Future<any, any> {
+  const decoration = checkDecoration(kind, name, instance, key);
+  return futureOf(instance, key, decoration, args);
+}
+
+function evictFrom<S extends object, K extends keyof S>(
+  kind: new () => Future<any, any>,
+  name: string,
+  instance: S,
+  key: K,
+  args?: any[],
+): void {
+  const {options} = checkDecoration(kind, name, instance, key);
+  const methods = futures.get(instance);
+  const hashes = methods && methods.get(key);
+  if (!hashes) {
+    return;
+  }
+
+  const {keyed = false, hash = JSON.stringify} = options;
+  const evicted =
+    args === undefined ? Array.from(hashes.keys()) : [keyed ? hash(args) : ''];
+  for (const argsHash of evicted) {
+    const future = hashes.get(argsHash);
+    if (future) {
+      hashes.delete(argsHash);
+      future.dispose();
+    }
+  }
+}
+
+/**
+ * Decorates an async method, so that every promise it returns is accepted
+ * into a Failable attached to the instance, which `failable.of` retrieves. The
+ * method still returns its promise.
+ */
+export function failable<M extends Method>(
+  target: object,
+  key: PropertyKey,
+  descriptor: TypedPropertyDescriptor<M>,
+): TypedPropertyDescriptor<M>;
+export function failable<T = any, E extends Error = Error>(
+  options: DecoratorOptions<T, E>,
+): MethodDecorator<T>;
+export function failable(...args: any[]): any {
+  if (args.length === 1) {
+    return decorator(Failable, args[0]);
+  }
+  return decorator(Failable, {})(args[0], args[1], args[2]);
+}
+
+export namespace failable {
+  /**
+   * Returns the Failable backing the given method decorated with `@failable`,
+   * creating a pending one if the method was never called.
+   * @param instance The instance whose method it is
+   * @param key The name of the method
+   * @param args The arguments of the call, when the method is keyed
+   * @returns The Failable backing the method
+   * @throws {TypeError} When the method is not decorated with `@failable`
+   */
+  export function of<
+    S extends object,
+    K extends keyof S,
+    E extends Error = Error
+  >(instance: S, key: K, args: any[] = []): Failable<Result<S[K]>, E> {
+    return lookup(Failable, 'failable', instance, key, args) as Failable<
+      Result<S[K]>,
+      E
+    >;
+  }
+
+  /**
+   * Forgets the Failable backing the given method decorated with `@failable`,
+   * or every one of them when keyed and no arguments are given, disposing it.
+   * The next call or lookup then starts over with a new Failable.
+   * @param instance The instance whose method it is
+   * @param key The name of the method
+   * @param args The arguments of the call, when the method is keyed
+   * @throws {TypeError} When the method is not decorated with `@failable`
+   */
+  export function evict<S extends object, K extends keyof S>(
+    instance: S,
+    key: K,
+    args?: any[],
+  ): void {
+    evictFrom(Failable, 'failable', instance, key, args);
+  }
+}
+
+/**
+ * Decorates an async method, so that every promise it returns is accepted
+ * into a Loadable attached to the instance, which `loadable.of` retrieves. The
+ * method still returns its promise.
+ */
+export function loadable<M extends Method>(
+  target: object,
+  key: PropertyKey,
+  descriptor: TypedPropertyDescriptor<M>,
+): TypedPropertyDescriptor<M>;
+export function loadable<T = any, E extends Error = Error>(
+  options: DecoratorOptions<T, E>,
+): MethodDecorator<T>;
+export function loadable(...args: any[]): any {
+  if (args.length === 1) {
+    return decorator(Loadable, args[0]);
+  }
+  return decorator(Loadable, {})(args[0], args[1], args[2]);
+}
+
+export namespace loadable {
+  /**
+   * Returns the Loadable backing the given method decorated with `@loadable`,
+   * creating an empty one if the method was never called.
+   * @param instance The instance whose method it is
+   * @param key The name of the method
+   * @param args The arguments of the call, when the method is keyed
+   * @returns The Loadable backing the method
+   * @throws {TypeError} When the method is not decorated with `@loadable`
+   */
+  export function of<
+    S extends object,
+    K extends keyof S,
+    E extends Error = Error
+  >(instance: S, key: K, args: any[] = []): Loadable<Result<S[K]>, E> {
+    return lookup(Loadable, 'loadable', instance, key, args) as Loadable<
+      Result<S[K]>,
+      E
+    >;
+  }
+
+  /**
+   * Forgets the Loadable backing the given method decorated with `@loadable`,
+   * or every one of them when keyed and no arguments are given, disposing it.
+   * The next call or lookup then starts over with a new Loadable.
+   * @param instance The instance whose method it is
+   * @param key The name of the method
+   * @param args The arguments of the call, when the method is keyed
+   * @throws {TypeError} When the method is not decorated with `@loadable`
+   */
+  export function evict<S extends object, K extends keyof S>(
+    instance: S,
+    key: K,
+    args?: any[],
+  ): void {
+    evictFrom(Loadable, 'loadable', instance, key, args);
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * AggregateError is the error that a combination of Futures fails with when
+ * all of them are failures. Each of their errors is kept in `errors`.
+ */
+export class AggregateError extends Error {
+  constructor(readonly errors: Error[]) {
+    super(
+      `All futures failed: ${errors.map(error => error.message).join('; ')}`,
+    );
+    Object.setPrototypeOf(this, AggregateError.prototype);
+    this.name = 'AggregateError';
+  }
+}
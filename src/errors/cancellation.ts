@@ -0,0 +1,15 @@
+/**
+ * CancellationError is the error that a pending Failable fails with when it is
+ * cancelled.
+ */
+export class CancellationError extends Error {
+  constructor(message: string = 'The operation was cancelled') {
+    super(message);
+    /**
+     * Restore the prototype chain, which is lost when extending built-ins
+     * while targeting ES5, so that `instanceof` checks keep working.
+     */
+    Object.setPrototypeOf(this, CancellationError.prototype);
+    this.name = 'CancellationError';
+  }
+}
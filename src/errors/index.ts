@@ -0,0 +1,3 @@
+export {AggregateError} from './aggregate';
+export {CancellationError} from './cancellation';
+export {TimeoutError} from './timeout';
@@ -0,0 +1,11 @@
+/**
+ * TimeoutError is the error that a Future fails with when an accepted promise
+ * does not settle in time.
+ */
+export class TimeoutError extends Error {
+  constructor(readonly timeoutMs: number) {
+    super(`The operation timed out after ${timeoutMs}ms`);
+    Object.setPrototypeOf(this, TimeoutError.prototype);
+    this.name = 'TimeoutError';
+  }
+}
@@ -1,14 +1,223 @@
+import {reaction, untracked, when} from 'mobx';
+
+import {isSilenced, silence} from './config';
+import {CancellationError, TimeoutError} from './errors';
 import {Future, ReadonlyFuture} from './future';
+import {Snapshot, TransitionListener} from './internal';
 import {Lazy} from './lazy';
 
-export function accept<T>(f: Future<T>, promise: PromiseLike<T>): Future<T> {
+/**
+ * The global AbortController, which browsers and Node 15 onwards provide. It
+ * is declared here rather than through the DOM typings, which this library
+ * does not compile against.
+ */
+interface AbortController {
+  readonly signal: AbortSignal;
+  abort(): void;
+}
+
+declare const AbortController: new () => AbortController;
+
+/**
+ * A request represents a single accepted promise. Its controller is only
+ * present when the promise was produced by a factory, and its timeout only
+ * when a time limit was given. It fails its Future through `fail`, which
+ * passes the reason through the `mapError` option, if any.
+ */
+interface Request {
+  controller?: AbortController;
+  clearTimeout?: () => void;
+  timedOut?: boolean;
+  fail: (reason: any) => void;
+}
+
+/**
+ * Tracks the most recently accepted request of each Future. Only the current
+ * request may settle its Future; anything else is stale.
+ */
+const requests = new WeakMap<Future<any>, Request>();
+
+export function accept<T, E extends Error>(
+  f: Future<T, E>,
+  source: Future.Source<T>,
+  options: Future.AcceptOptions<T, E> = {},
+): Future<T, E> {
+  const request: Request = {
+    fail: reason => {
+      const error = mapError(reason, options);
+      // A silenced reason stays silenced once mapped.
+      if (isSilenced(reason)) {
+        silence(error);
+      }
+      f.failure(error);
+    },
+  };
+
+  let promise: PromiseLike<T>;
+  if (typeof source === 'function') {
+    request.controller = new AbortController();
+    promise = source(request.controller.signal);
+  } else {
+    promise = source;
+  }
+  // The request is only registered once the factory returns, so that one
+  // throwing leaves the current request in place.
+  cancel(f);
+  requests.set(f, request);
   f.pending();
-  Promise.resolve(promise).then(f.success, f.failure);
+
+  const {timeoutMs} = options;
+  if (timeoutMs !== undefined) {
+    const timeout = setTimeout(() => {
+      request.timedOut = true;
+      cancel(f, new TimeoutError(timeoutMs));
+    }, timeoutMs);
+    request.clearTimeout = () => clearTimeout(timeout);
+  }
+
+  const settle = (state: Future.State, data: T | E) => {
+    if (requests.get(f) !== request) {
+      if (options.superseded && !request.timedOut) {
+        options.superseded(state, data);
+      }
+      return;
+    }
+    requests.delete(f);
+    if (request.clearTimeout) {
+      request.clearTimeout();
+    }
+    if (state === Future.State.success) {
+      f.success(data as T);
+    } else {
+      f.failure(data as E);
+    }
+  };
+
+  Promise.resolve(promise).then(
+    value => settle(Future.State.success, value),
+    error => settle(Future.State.failure, mapError(error, options)),
+  );
   return f;
 }
 
-export function successOr<T, U>(
-  f: ReadonlyFuture<T>,
+/**
+ * Passes the given reason through the `mapError` option, if any. When the
+ * mapper throws, whatever it threw is the error instead, so that the Future
+ * still fails.
+ */
+function mapError<T, E extends Error>(
+  reason: any,
+  options: Future.AcceptOptions<T, E>,
+): E {
+  if (!options.mapError) {
+    return reason;
+  }
+  try {
+    return options.mapError(reason);
+  } catch (e) {
+    return e;
+  }
+}
+
+/**
+ * Invalidates the request currently accepted by the given Future, aborting it
+ * if it was produced by a factory. When a `reason` is given, the Future then
+ * fails with it, passed through the `mapError` option of the request, if any.
+ * @returns Whether there was a request in flight
+ */
+export function cancel<T>(f: Future<T>, reason?: Error): boolean {
+  const request = requests.get(f);
+  if (!request) {
+    return false;
+  }
+  requests.delete(f);
+  if (request.clearTimeout) {
+    request.clearTimeout();
+  }
+  if (request.controller) {
+    request.controller.abort();
+  }
+  if (reason) {
+    request.fail(reason);
+  }
+  return true;
+}
+
+/**
+ * Tracks the derivations of each Future, so that disposing a Future cascades
+ * down its derivation chains.
+ */
+const derivations = new WeakMap<object, Set<ReadonlyFuture<any>>>();
+
+/**
+ * The derivations registered while `collect` runs, if it does.
+ */
+let collected: Set<ReadonlyFuture<any>> | undefined;
+
+/**
+ * Registers `child` as a derivation of `parent`.
+ */
+export function adopt<T, U>(
+  parent: ReadonlyFuture<T>,
+  child: ReadonlyFuture<U>,
+): void {
+  const children = derivations.get(parent) || new Set();
+  children.add(child);
+  derivations.set(parent, children);
+  if (collected) {
+    collected.add(child);
+  }
+}
+
+/**
+ * Invokes the given function, keeping track of the derivations it creates, so
+ * that they can be disposed of along with whatever it produced.
+ * @returns The result of the function, and the derivations it created
+ */
+export function collect<R>(f: () => R): [R, Array<ReadonlyFuture<any>>] {
+  const outer = collected;
+  const created = (collected = new Set());
+  try {
+    return [f(), Array.from(created)];
+  } finally {
+    collected = outer;
+  }
+}
+
+/**
+ * Unregisters `child` as a derivation of `parent`.
+ */
+export function release<T, U>(
+  parent: ReadonlyFuture<T>,
+  child: ReadonlyFuture<U>,
+): void {
+  const children = derivations.get(parent);
+  if (children) {
+    children.delete(child);
+  }
+}
+
+/**
+ * Disposes every derivation of the given Future.
+ */
+export function dispose<T>(f: ReadonlyFuture<T>): void {
+  const children = derivations.get(f);
+  if (!children) {
+    return;
+  }
+  derivations.delete(f);
+  children.forEach(child => child.dispose());
+}
+
+/**
+ * Tells a promise apart from a Future.
+ */
+export function isPromiseLike<T>(v: object): v is PromiseLike<T> {
+  return typeof (v as PromiseLike<T>).then === 'function';
+}
+
+export function successOr<T, U, E extends Error>(
+  f: ReadonlyFuture<T, E>,
   defaultValue: Lazy<U>,
 ): T | U {
   return f.match({
@@ -18,13 +227,172 @@ export function successOr<T, U>(
   });
 }
 
-export function failureOr<T, U>(
-  f: ReadonlyFuture<T>,
+export function failureOr<T, U, E extends Error>(
+  f: ReadonlyFuture<T, E>,
   defaultValue: Lazy<U>,
-): Error | U {
+): E | U {
   return f.match({
     success: () => Lazy.force(defaultValue),
     failure: e => e,
     pending: () => Lazy.force(defaultValue),
   });
 }
+
+/**
+ * Waits for the given predicate, which tells whether a Future is settled, to
+ * hold, and then reads the result off that Future right away.
+ * @returns A promise of the result, rejected with a `TimeoutError` or a
+ * `CancellationError` if waiting was cut short
+ */
+function waitFor<R>(
+  settled: () => boolean,
+  read: () => R | PromiseLike<R>,
+  options: Future.WaitOptions = {},
+): Promise<R> {
+  return new Promise<R>((resolve, reject) => {
+    let done = false;
+    const cleanups: Array<() => void> = [];
+    const finish = (complete: () => void) => {
+      if (done) {
+        return;
+      }
+      done = true;
+      cleanups.forEach(cleanup => cleanup());
+      complete();
+    };
+
+    const {signal, timeoutMs} = options;
+    if (signal) {
+      const abort = () => finish(() => reject(new CancellationError()));
+      if (signal.aborted) {
+        return abort();
+      }
+      signal.addEventListener('abort', abort);
+      cleanups.push(() => signal.removeEventListener('abort', abort));
+    }
+    if (timeoutMs !== undefined) {
+      const timeout = setTimeout(
+        () => finish(() => reject(new TimeoutError(timeoutMs))),
+        timeoutMs,
+      );
+      cleanups.push(() => clearTimeout(timeout));
+    }
+    // When already settled, the effect runs before its disposer is returned.
+    cleanups.push(when(settled, () => finish(() => resolve(read()))));
+  });
+}
+
+/**
+ * Waits for the given Future to be settled.
+ * @returns A promise of the given Future
+ */
+export function whenSettled<F>(
+  f: F,
+  settled: () => boolean,
+  options?: Future.WaitOptions,
+): Promise<F> {
+  return waitFor(settled, () => f, options);
+}
+
+/**
+ * Waits for the given Future to be settled, and then unwraps it.
+ * @returns A promise of the success value, rejected with the error otherwise
+ */
+export function toPromise<T, E extends Error>(
+  f: ReadonlyFuture<T, E>,
+  settled: () => boolean,
+  options?: Future.WaitOptions,
+): Promise<T> {
+  return waitFor<T>(
+    settled,
+    () =>
+      f.match<T, Promise<never>, never>({
+        success: value => value,
+        failure: error => Promise.reject(error),
+        pending: () => {
+          throw new Error('A settled Future cannot be pending');
+        },
+      }),
+    options,
+  );
+}
+
+/**
+ * Iterates over the snapshots of a Future, starting with the current one, each
+ * time it settles, as told by the given predicate. Snapshots are buffered until
+ * they are consumed. The iteration ends once `return` is called, such as when
+ * breaking out of a `for await` loop.
+ */
+export function transitions<T, State, E extends Error>(
+  settled: () => boolean,
+  snapshot: () => Snapshot<T, State, E>,
+): AsyncIterableIterator<Snapshot<T, State, E>> {
+  type Result = IteratorResult<Snapshot<T, State, E>>;
+  const buffer: Result[] = [];
+  const consumers: Array<(result: Result) => void> = [];
+
+  const push = (result: Result) => {
+    const consume = consumers.shift();
+    if (consume) {
+      consume(result);
+    } else {
+      buffer.push(result);
+    }
+  };
+
+  let done = false;
+  const stop = reaction(
+    () => (settled() ? snapshot() : undefined),
+    value => {
+      if (value) {
+        push({value, done: false});
+      }
+    },
+    {fireImmediately: true, name: 'transitions'},
+  );
+
+  return {
+    next(): Promise<Result> {
+      const result = buffer.shift();
+      if (result) {
+        return Promise.resolve(result);
+      }
+      if (done) {
+        return Promise.resolve({done: true} as Result);
+      }
+      return new Promise<Result>(resolve => consumers.push(resolve));
+    },
+    return(): Promise<Result> {
+      done = true;
+      stop();
+      buffer.length = 0;
+      consumers.splice(0).forEach(consume => consume({done: true} as Result));
+      return Promise.resolve({done: true} as Result);
+    },
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+}
+
+/**
+ * Invokes the given listener whenever the state of a Future changes, with the
+ * previous state, the new state and the data that comes with it. Changes made
+ * within a single action make up a single transition.
+ * @returns A function that stops listening
+ */
+export function onTransition<T, State, E extends Error>(
+  snapshot: () => Snapshot<T, State, E>,
+  listener: TransitionListener<T, State, E>,
+): () => void {
+  let from = untracked(snapshot).state;
+  return reaction(
+    () => snapshot().state,
+    to => {
+      const previous = from;
+      from = to;
+      listener(previous, to, snapshot().data);
+    },
+    {name: 'onTransition'},
+  );
+}
@@ -0,0 +1,47 @@
+import {getDebugName} from 'mobx';
+
+import {Failable} from '.';
+import {Future} from '../future';
+import {expose} from '../internal';
+import {CombinedFailable} from './combined';
+
+describe('CombinedFailable', () => {
+  const State = Future.State;
+
+  function combine<T>(
+    f: Failable<T>,
+    options?: Future.DerivationOptions<{value: T}>,
+  ) {
+    return expose(
+      new CombinedFailable(
+        [f],
+        () => ({
+          state: f.isSuccess ? State.success : State.pending,
+          data: f.isSuccess ? {value: f.successOr(undefined)!} : undefined,
+        }),
+        undefined,
+        options,
+      ),
+    );
+  }
+
+  describe('options', () => {
+    it('names the combination after the name option', () => {
+      const c = combine(new Failable<number>(), {name: 'combined'});
+
+      expect(getDebugName(c, 'state')).toBe('combined.state');
+    });
+
+    it('keeps the current value when the equals option says so', () => {
+      const f = new Failable<number>().success(1);
+      const c = combine(f, {equals: (a, b) => a.value % 2 === b.value % 2});
+      const value = c.data;
+      f.success(3);
+
+      expect(c.data).toBe(value);
+
+      f.success(2);
+      expect(c.data).toEqual({value: 2});
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import {
+  action,
+  autorun,
+  comparer,
+  computed,
+  getDebugName,
+  IReactionDisposer,
+  observable,
+} from 'mobx';
+
+import {markHandled, reportFailure} from '../config';
+import {
+  adopt,
+  dispose,
+  failureOr,
+  onTransition,
+  release,
+  successOr,
+  toPromise,
+  whenSettled,
+} from '../extensions';
+import {Future, ReadonlyFuture} from '../future';
+import {rename, Snapshot} from '../internal';
+import {Lazy} from '../lazy';
+import {derive, flatMap, map, rescue} from './extensions';
+import {match} from './match';
+
+const State = Future.State;
+
+/**
+ * CombinedFailable syncs with several Futures at once. Whenever any of them
+ * changes, the `combine` function is invoked to compute the new state and data
+ * of this combination. The `cleanup` function, if any, is invoked once this
+ * combination is disposed. See `Future.DerivationOptions` for the options.
+ */
+export class CombinedFailable<T, E extends Error = Error>
+  implements ReadonlyFuture<T, E> {
+  @observable protected data: T | E | undefined = undefined;
+  @observable protected state: Future.State = State.pending;
+  protected transformation: IReactionDisposer;
+  protected equals: (a: T, b: T) => boolean;
+
+  constructor(
+    protected inputs: Array<ReadonlyFuture<any>>,
+    protected combine: () => Snapshot<T, Future.State, E>,
+    protected cleanup?: () => void,
+    options: Future.DerivationOptions<T> = {},
+  ) {
+    const {name, equals = comparer.identity} = options;
+    if (name !== undefined) {
+      rename(this, name);
+    }
+    this.equals = equals;
+    this.transformation = autorun(() => this.transform(), {
+      name: `${getDebugName(this)}.combination`,
+    });
+    for (const input of inputs) {
+      adopt(input, this);
+    }
+  }
+
+  protected transform() {
+    const {state, data} = this.combine();
+    this.transitionTo(state, data);
+  }
+
+  @action
+  protected transitionTo(state: Future.State, data: T | E | undefined): void {
+    const failed = state === State.failure;
+    const changed = state !== this.state || data !== this.data;
+    const kept =
+      state === State.success &&
+      this.state === State.success &&
+      this.equals(this.data as T, data as T);
+    this.state = state;
+    if (!kept) {
+      this.data = data;
+    }
+    if (failed && changed) {
+      reportFailure(this, data as E);
+    }
+  }
+
+  /**
+   * Indicates if this Failable is a success.
+   */
+  @computed
+  get isSuccess(): boolean {
+    return this.state === State.success;
+  }
+
+  /**
+   * Indicates if this Failable is a failure.
+   */
+  @computed
+  get isFailure(): boolean {
+    return this.state === State.failure;
+  }
+
+  /**
+   * Indicates if this Failable is pending.
+   */
+  @computed
+  get isPending(): boolean {
+    return this.state === State.pending;
+  }
+
+  /**
+   * Invokes one of the provided callbacks that corresponds this Failable's
+   * current state.
+   * @param options An object of callbacks to be invoked according to the state.
+   * @returns The return value of whichever callback was selected.
+   */
+  match<A, B, C>(options: Future.MatchOptions<T, A, B, C, E>): A | B | C {
+    markHandled(this);
+    return match(this.state, this.data, options);
+  }
+
+  /**
+   * Returns this Failable's success value if it is a success, or the provided
+   * default value if it is not.
+   * @param defaultValue A possibly lazy value to use in case of non-success
+   * @returns This Future's success value or the provided default value
+   */
+  successOr<U>(defaultValue: Lazy<U>): T | U {
+    return successOr(this, defaultValue);
+  }
+
+  /**
+   * Returns this Failable's error value if it is a failure, or the provided
+   * default value if it is not.
+   * @param defaultValue A possibly lazy value to use in case of non-failure
+   * @returns this Failable's failure error or the provided default value
+   */
+  failureOr<U>(defaultValue: Lazy<U>): E | U {
+    return failureOr(this, defaultValue);
+  }
+
+  /**
+   * Derives a ReadonlyFuture that syncs with this Failable using the given
+   * options. For each transform function in the options, returning a value will
+   * turn the derivation into a success with that value, whereas throwing an
+   * error will turn it into a failure with that error value.
+   *
+   * The resulting derivation updates as the Failable it is derived from
+   * updates and changes state.
+   * @param options An object of transform functions to be invoked according
+   * to the state
+   * @returns A derived ReadonlyFuture
+   */
+  derive<U>(
+    options: Future.DeriveOptions.AtLeastFailure<T, U, E>,
+  ): ReadonlyFuture<U, Error>;
+  derive<U>(options: Future.DeriveOptions<T, U, E>): ReadonlyFuture<U, E>;
+  derive<U>(options: Future.DeriveOptions<T, U, E>): ReadonlyFuture<U, Error> {
+    return derive<T, U, E, Error>(this, options);
+  }
+
+  /**
+   * Creates a derived ReadonlyFuture that syncs with this Failable, except
+   * success values are first transformed using the provided function `f`. When
+   * the provided function throws, the derived ReadonlyFuture becomes a failure.
+   *
+   * This is a shorthand of calling `derive` with only a `success` function.
+   * @param f The success transformation function
+   * @param options Options that customize the derivation
+   * @returns A derived ReadonlyFuture
+   */
+  map<U>(
+    f: (value: T) => U,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyFuture<U, E> {
+    return map(this, f, options);
+  }
+
+  /**
+   * Creates a derived ReadonlyFuture that syncs with this Failable, except
+   * error values are first transformed using the provided function `f`. When
+   * the provided function returns, the derived ReadonlyFuture becomes a
+   * success. When it throws, the derivation becomes a failure.
+   *
+   * This is a shorthand of calling `derive` with only a `failure` function.
+   * @param f The failure transformation function
+   * @param options Options that customize the derivation
+   * @returns A derived ReadonlyFuture
+   */
+  rescue<U = T>(
+    f: (error: E) => U,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyFuture<U> {
+    return rescue<T, U, E>(this, f, options);
+  }
+
+  /**
+   * Creates a derived ReadonlyFuture that syncs with the Future returned by the
+   * provided function `f`, which is invoked with each new success value of
+   * this Failable. When `f` returns a promise instead, it is accepted into the
+   * derivation. Results made for earlier values are discarded. When `f`
+   * throws, the derivation becomes a failure.
+   *
+   * Otherwise, the derivation mirrors this Failable.
+   * @param f The function producing a Future or a promise
+   * @param options Options that customize the derivation
+   * @returns A derived ReadonlyFuture
+   */
+  flatMap<U>(
+    f: (value: T) => ReadonlyFuture<U, E> | PromiseLike<U>,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyFuture<U, E> {
+    return flatMap(this, f, options);
+  }
+
+  /**
+   * Waits for this Failable to be settled, meaning that it is no longer
+   * pending. Waiting can be cut short with the `timeoutMs` and `signal`
+   * options.
+   * @param options Options that limit how long to wait
+   * @returns A promise of this Failable
+   */
+  whenSettled(options?: Future.WaitOptions): Promise<this> {
+    return whenSettled(this, () => !this.isPending, options);
+  }
+
+  /**
+   * Waits for this Failable to be settled, like `whenSettled`, and then
+   * resolves with its success value, or rejects with its error.
+   * @param options Options that limit how long to wait
+   * @returns A promise of this Failable's success value
+   */
+  toPromise(options?: Future.WaitOptions): Promise<T> {
+    return toPromise(this, () => !this.isPending, options);
+  }
+
+  /**
+   * Invokes the given listener whenever this Failable transitions from one
+   * state to another, with both states and the data of the new state.
+   * @param listener The function to invoke on each transition
+   * @returns A function that stops listening
+   */
+  onTransition(listener: Future.TransitionListener<T, E>): () => void {
+    return onTransition<T, Future.State, E>(
+      () => ({state: this.state, data: this.data}),
+      listener,
+    );
+  }
+
+  /**
+   * Stops this Failable from syncing with the Futures it combines, and
+   * disposes every ReadonlyFuture derived from this one. This Failable keeps
+   * its last state.
+   */
+  dispose(): void {
+    this.transformation();
+    for (const input of this.inputs) {
+      release(input, this);
+    }
+    if (this.cleanup) {
+      this.cleanup();
+    }
+    dispose(this);
+  }
+}
@@ -1,4 +1,4 @@
-import {computed, when} from 'mobx';
+import {computed, getDebugName, when} from 'mobx';
 
 import {Failable} from '.';
 import {Future, ReadonlyFuture} from '../future';
@@ -266,4 +266,92 @@ describe('DerivedFailable', () => {
       expect(d.state).toBe(State.failure);
     });
   });
+
+  describe('options', () => {
+    it('names the derivation after the name option', () => {
+      const d = derive(make.success(), {
+        success: (v: number) => v.toString(),
+        name: 'label',
+      });
+
+      expect(getDebugName(d, 'state')).toBe('label.state');
+    });
+
+    it('keeps the current value when the equals option says so', () => {
+      const f = make.success();
+      const d = derive(f, {
+        success: (v: number) => ({parity: v % 2}),
+        equals: (a, b) => a.parity === b.parity,
+      });
+      const value = d.data;
+      f.success(successValue + 2);
+
+      expect(d.data).toBe(value);
+
+      f.success(successValue + 1);
+      expect(d.data).toEqual({parity: (successValue + 1) % 2});
+    });
+
+    it('passes the options of map and rescue along', () => {
+      const f = make.failure();
+      const mapped = f.map(v => v, {name: 'mapped'});
+      const rescued = f.rescue(() => 0, {name: 'rescued'});
+
+      expect(getDebugName(mapped)).toBe('mapped');
+      expect(getDebugName(rescued)).toBe('rescued');
+    });
+  });
+
+  describe('onTransition', () => {
+    it('invokes the listener on each transition of the derivation', () => {
+      const f = make.pending();
+      const d = derive(f, {success: (v: number) => v.toString()});
+      const listener = jest.fn();
+      d.onTransition(listener);
+      f.success(successValue);
+
+      expect(listener).toBeCalledWith(
+        State.pending,
+        State.success,
+        successValue.toString(),
+      );
+    });
+  });
+
+  describe('dispose', () => {
+    const options = Object.freeze({success: (v: number) => v.toString()});
+
+    it('stops syncing with the underlying future', () => {
+      const f = make.success();
+      const d = derive(f, options);
+
+      d.dispose();
+      f.failure(failureValue);
+      expect(d.data).toBe(successValue.toString());
+      expect(d.state).toBe(State.success);
+    });
+
+    it('cascades down the derivation chain', () => {
+      const f = make.success();
+      const d = derive(f, options);
+      const e = expose(d.map(v => v.length));
+
+      f.dispose();
+      f.failure(failureValue);
+      expect(d.state).toBe(State.success);
+      expect(e.data).toBe(successValue.toString().length);
+      expect(e.state).toBe(State.success);
+    });
+
+    it('leaves sibling derivations syncing', () => {
+      const f = make.success();
+      const d = derive(f, options);
+      const e = derive(f, options);
+
+      d.dispose();
+      f.failure(failureValue);
+      expect(e.data).toBe(failureValue);
+      expect(e.state).toBe(State.failure);
+    });
+  });
 });
@@ -1,26 +1,63 @@
-import {action, autorun, computed, IReactionDisposer, observable} from 'mobx';
+import {
+  action,
+  autorun,
+  comparer,
+  computed,
+  getDebugName,
+  IReactionDisposer,
+  observable,
+} from 'mobx';
 
-import {failureOr, successOr} from '../extensions';
+import {markHandled, reportFailure} from '../config';
+import {
+  adopt,
+  dispose,
+  failureOr,
+  onTransition,
+  release,
+  successOr,
+  toPromise,
+  whenSettled,
+} from '../extensions';
 import {Future, ReadonlyFuture} from '../future';
+import {rename} from '../internal';
 import {Lazy} from '../lazy';
-import {derive, map, rescue} from './extensions';
+import {derive, flatMap, map, rescue} from './extensions';
 import {match} from './match';
 
 const State = Future.State;
 
-export class DerivedFailable<T, To> implements ReadonlyFuture<To> {
-  @observable protected underlying: ReadonlyFuture<T>;
-  @observable protected data: To | Error | undefined = undefined;
+/**
+ * DerivedFailable syncs with the Future it is derived from, transforming its
+ * state and data with the callbacks of the given options. See
+ * `Future.DerivationOptions` for the other options.
+ */
+export class DerivedFailable<
+  T,
+  To,
+  E extends Error = Error,
+  F extends Error = E
+> implements ReadonlyFuture<To, F> {
+  @observable protected underlying: ReadonlyFuture<T, E>;
+  @observable protected data: To | F | undefined = undefined;
   @observable protected state: Future.State = State.pending;
   protected transformation: IReactionDisposer;
+  protected equals: (a: To, b: To) => boolean;
 
   constructor(
-    underlying: ReadonlyFuture<T>,
-    protected options: Future.DeriveOptions<T, To>,
+    underlying: ReadonlyFuture<T, E>,
+    protected options: Future.DeriveOptions<T, To, E>,
   ) {
+    const {name, equals = comparer.identity} = options;
+    if (name !== undefined) {
+      rename(this, name);
+    }
+    this.equals = equals;
     this.underlying = underlying;
-    this.transformation = autorun(() => this.transform(), {name: 'transformation'});
-    this.transform();
+    this.transformation = autorun(() => this.transform(), {
+      name: `${getDebugName(this)}.transformation`,
+    });
+    adopt(underlying, this);
   }
 
   protected transform() {
@@ -41,7 +78,8 @@ export class DerivedFailable<T, To> implements ReadonlyFuture<To> {
       failure: error => {
         failure
           ? this.transformWith(failure, error)
-          : this.transitionTo(State.failure, error);
+          : // Likewise, `F` cannot be proven to be `E`.
+            this.transitionTo(State.failure, error as never);
       },
       pending: () => {
         pending
@@ -61,12 +99,20 @@ export class DerivedFailable<T, To> implements ReadonlyFuture<To> {
   }
 
   @action
-  protected transitionTo(
-    state: Future.State,
-    data: To | Error | undefined,
-  ): void {
+  protected transitionTo(state: Future.State, data: To | F | undefined): void {
+    const failed = state === State.failure;
+    const changed = state !== this.state || data !== this.data;
+    const kept =
+      state === State.success &&
+      this.state === State.success &&
+      this.equals(this.data as To, data as To);
     this.state = state;
-    this.data = data;
+    if (!kept) {
+      this.data = data;
+    }
+    if (failed && changed) {
+      reportFailure(this, data as F);
+    }
   }
 
   /**
@@ -99,7 +145,8 @@ export class DerivedFailable<T, To> implements ReadonlyFuture<To> {
    * @param options An object of callbacks to be invoked according to the state.
    * @returns The return value of whichever callback was selected.
    */
-  match<A, B, C>(options: Future.MatchOptions<To, A, B, C>): A | B | C {
+  match<A, B, C>(options: Future.MatchOptions<To, A, B, C, F>): A | B | C {
+    markHandled(this);
     return match(this.state, this.data, options);
   }
 
@@ -119,7 +166,7 @@ export class DerivedFailable<T, To> implements ReadonlyFuture<To> {
    * @param defaultValue A possibly lazy value to use in case of non-failure
    * @returns this Failable's failure error or the provided default value
    */
-  failureOr<U>(defaultValue: Lazy<U>): Error | U {
+  failureOr<U>(defaultValue: Lazy<U>): F | U {
     return failureOr(this, defaultValue);
   }
 
@@ -135,8 +182,12 @@ export class DerivedFailable<T, To> implements ReadonlyFuture<To> {
    * to the state
    * @returns A derived ReadonlyFuture
    */
-  derive<U>(options: Future.DeriveOptions<To, U>): ReadonlyFuture<U> {
-    return derive(this, options);
+  derive<U>(
+    options: Future.DeriveOptions.AtLeastFailure<To, U, F>,
+  ): ReadonlyFuture<U, Error>;
+  derive<U>(options: Future.DeriveOptions<To, U, F>): ReadonlyFuture<U, F>;
+  derive<U>(options: Future.DeriveOptions<To, U, F>): ReadonlyFuture<U, Error> {
+    return derive<To, U, F, Error>(this, options);
   }
 
   /**
@@ -146,10 +197,14 @@ export class DerivedFailable<T, To> implements ReadonlyFuture<To> {
    *
    * This is a shorthand of calling `derive` with only a `success` function.
    * @param f The success transformation function
+   * @param options Options that customize the derivation
    * @returns A derived ReadonlyFuture
    */
-  map<U>(f: (value: To) => U): ReadonlyFuture<U> {
-    return map(this, f);
+  map<U>(
+    f: (value: To) => U,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyFuture<U, F> {
+    return map(this, f, options);
   }
 
   /**
@@ -160,9 +215,77 @@ export class DerivedFailable<T, To> implements ReadonlyFuture<To> {
    *
    * This is a shorthand of calling `derive` with only a `failure` function.
    * @param f The failure transformation function
+   * @param options Options that customize the derivation
    * @returns A derived ReadonlyFuture
    */
-  rescue<U = To>(f: (error: Error) => U): ReadonlyFuture<U> {
-    return rescue(this, f);
+  rescue<U = To>(
+    f: (error: F) => U,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyFuture<U> {
+    return rescue<To, U, F>(this, f, options);
+  }
+
+  /**
+   * Creates a derived ReadonlyFuture that syncs with the Future returned by the
+   * provided function `f`, which is invoked with each new success value of
+   * this Failable. When `f` returns a promise instead, it is accepted into the
+   * derivation. Results made for earlier values are discarded. When `f`
+   * throws, the derivation becomes a failure.
+   *
+   * Otherwise, the derivation mirrors this Failable.
+   * @param f The function producing a Future or a promise
+   * @param options Options that customize the derivation
+   * @returns A derived ReadonlyFuture
+   */
+  flatMap<U>(
+    f: (value: To) => ReadonlyFuture<U, F> | PromiseLike<U>,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyFuture<U, F> {
+    return flatMap(this, f, options);
+  }
+
+  /**
+   * Waits for this Failable to be settled, meaning that it is no longer
+   * pending. Waiting can be cut short with the `timeoutMs` and `signal`
+   * options.
+   * @param options Options that limit how long to wait
+   * @returns A promise of this Failable
+   */
+  whenSettled(options?: Future.WaitOptions): Promise<this> {
+    return whenSettled(this, () => !this.isPending, options);
+  }
+
+  /**
+   * Waits for this Failable to be settled, like `whenSettled`, and then
+   * resolves with its success value, or rejects with its error.
+   * @param options Options that limit how long to wait
+   * @returns A promise of this Failable's success value
+   */
+  toPromise(options?: Future.WaitOptions): Promise<To> {
+    return toPromise(this, () => !this.isPending, options);
+  }
+
+  /**
+   * Invokes the given listener whenever this Failable transitions from one
+   * state to another, with both states and the data of the new state.
+   * @param listener The function to invoke on each transition
+   * @returns A function that stops listening
+   */
+  onTransition(listener: Future.TransitionListener<To, F>): () => void {
+    return onTransition<To, Future.State, F>(
+      () => ({state: this.state, data: this.data}),
+      listener,
+    );
+  }
+
+  /**
+   * Stops this Failable from syncing with the Failable it is derived from,
+   * and disposes every ReadonlyFuture derived from this one. This Failable
+   * keeps its last state.
+   */
+  dispose(): void {
+    this.transformation();
+    release(this.underlying, this);
+    dispose(this);
   }
 }
@@ -1,27 +1,254 @@
+import {untracked} from 'mobx';
+
+import {Failable} from '.';
+import {silence} from '../config';
+import {AggregateError} from '../errors';
+import {cancel, collect, isPromiseLike} from '../extensions';
 import {Future, ReadonlyFuture} from '../future';
+import {Snapshot} from '../internal';
+import {CombinedFailable} from './combined';
 import {DerivedFailable} from './derived';
 
-export function derive<T, To>(
-  future: ReadonlyFuture<T>,
-  options: Future.DeriveOptions<T, To>,
-): ReadonlyFuture<To> {
-  return new DerivedFailable(future, options);
+const State = Future.State;
+
+export function derive<T, To, E extends Error, F extends Error = E>(
+  future: ReadonlyFuture<T, E>,
+  options: Future.DeriveOptions<T, To, E>,
+): ReadonlyFuture<To, F> {
+  return new DerivedFailable<T, To, E, F>(future, options);
 }
 
-export function map<T, To>(
-  future: ReadonlyFuture<T>,
+export function map<T, To, E extends Error>(
+  future: ReadonlyFuture<T, E>,
   f: (value: T) => To,
-): ReadonlyFuture<To> {
-  return new DerivedFailable(future, {
-    success: f,
-  });
+  options: Future.DerivationOptions<To> = {},
+): ReadonlyFuture<To, E> {
+  return new DerivedFailable<T, To, E, E>(future, {...options, success: f});
 }
 
-export function rescue<T, To>(
-  future: ReadonlyFuture<T>,
-  f: (error: Error) => To,
+export function rescue<T, To, E extends Error>(
+  future: ReadonlyFuture<T, E>,
+  f: (error: E) => To,
+  options: Future.DerivationOptions<To> = {},
 ): ReadonlyFuture<To> {
-  return new DerivedFailable(future, {
-    failure: f,
+  return new DerivedFailable<T, To, E, Error>(future, {...options, failure: f});
+}
+
+export function flatMap<T, To, E extends Error>(
+  future: ReadonlyFuture<T, E>,
+  f: (value: T) => ReadonlyFuture<To, E> | PromiseLike<To>,
+  options: Future.DerivationOptions<To> = {},
+): ReadonlyFuture<To, E> {
+  /**
+   * Promises returned by `f` are all accepted into the same Failable, so that
+   * the results of those made for earlier values are discarded. Derivations
+   * created by `f` are disposed once they are switched away from. Failures of
+   * the accepted promises are reported by the derivation instead.
+   */
+  const accepted = new Failable<To, E>();
+  silence(accepted);
+  let last:
+    | {
+        value: T;
+        inner: ReadonlyFuture<To, E>;
+        created: Array<ReadonlyFuture<any>>;
+      }
+    | undefined;
+
+  const switchTo = (value: T): ReadonlyFuture<To, E> => {
+    try {
+      const result = f(value);
+      return isPromiseLike(result) ? accepted.accept(result) : result;
+    } catch (e) {
+      cancel(accepted);
+      return accepted.failure(e);
+    }
+  };
+
+  const switchAway = () => {
+    if (last) {
+      last.created.forEach(derivation => derivation.dispose());
+      last = undefined;
+    }
+  };
+
+  type S = Snapshot<To, Future.State, E>;
+  return new CombinedFailable<To, E>(
+    [future],
+    () =>
+      future.match<S, S, S>({
+        success: value => {
+          if (!last || last.value !== value) {
+            switchAway();
+            const [next, created] = untracked(() =>
+              collect(() => switchTo(value)),
+            );
+            last = {value, inner: next, created};
+          }
+          return snapshotOf(last.inner);
+        },
+        failure: error => {
+          switchAway();
+          return {state: State.failure, data: error};
+        },
+        pending: () => {
+          switchAway();
+          return {state: State.pending, data: undefined};
+        },
+      }),
+    () => {
+      switchAway();
+      accepted.dispose();
+    },
+    options,
+  );
+}
+
+function snapshotOf<T, E extends Error>(
+  future: ReadonlyFuture<T, E>,
+): Snapshot<T, Future.State, E> {
+  type S = Snapshot<T, Future.State, E>;
+  return future.match<S, S, S>({
+    success: data => ({state: State.success, data}),
+    failure: error => ({state: State.failure, data: error}),
+    pending: () => ({state: State.pending, data: undefined}),
   });
 }
+
+export function all<A>(
+  futures: [ReadonlyFuture<A>],
+  options?: Future.DerivationOptions<[A]>,
+): ReadonlyFuture<[A]>;
+export function all<A, B>(
+  futures: [ReadonlyFuture<A>, ReadonlyFuture<B>],
+  options?: Future.DerivationOptions<[A, B]>,
+): ReadonlyFuture<[A, B]>;
+export function all<A, B, C>(
+  futures: [ReadonlyFuture<A>, ReadonlyFuture<B>, ReadonlyFuture<C>],
+  options?: Future.DerivationOptions<[A, B, C]>,
+): ReadonlyFuture<[A, B, C]>;
+export function all<A, B, C, D>(
+  futures: [
+    ReadonlyFuture<A>,
+    ReadonlyFuture<B>,
+    ReadonlyFuture<C>,
+    ReadonlyFuture<D>
+  ],
+  options?: Future.DerivationOptions<[A, B, C, D]>,
+): ReadonlyFuture<[A, B, C, D]>;
+export function all<A, B, C, D, E>(
+  futures: [
+    ReadonlyFuture<A>,
+    ReadonlyFuture<B>,
+    ReadonlyFuture<C>,
+    ReadonlyFuture<D>,
+    ReadonlyFuture<E>
+  ],
+  options?: Future.DerivationOptions<[A, B, C, D, E]>,
+): ReadonlyFuture<[A, B, C, D, E]>;
+export function all<A, B, C, D, E, F>(
+  futures: [
+    ReadonlyFuture<A>,
+    ReadonlyFuture<B>,
+    ReadonlyFuture<C>,
+    ReadonlyFuture<D>,
+    ReadonlyFuture<E>,
+    ReadonlyFuture<F>
+  ],
+  options?: Future.DerivationOptions<[A, B, C, D, E, F]>,
+): ReadonlyFuture<[A, B, C, D, E, F]>;
+export function all<T>(
+  futures: Array<ReadonlyFuture<T>>,
+  options?: Future.DerivationOptions<T[]>,
+): ReadonlyFuture<T[]>;
+export function all<T>(
+  futures: {[K in keyof T]: ReadonlyFuture<T[K]>},
+  options?: Future.DerivationOptions<T>,
+): ReadonlyFuture<T>;
+export function all(
+  futures: any,
+  options: Future.DerivationOptions<any> = {},
+): ReadonlyFuture<any> {
+  const keys = Object.keys(futures);
+  const inputs: Array<ReadonlyFuture<any>> = keys.map(key => futures[key]);
+
+  return new CombinedFailable(
+    inputs,
+    () => {
+      const snapshots = inputs.map(snapshotOf);
+
+      const failure = snapshots.find(({state}) => state === State.failure);
+      if (failure) {
+        return failure;
+      }
+      if (snapshots.some(({state}) => state === State.pending)) {
+        return {state: State.pending, data: undefined};
+      }
+
+      const values: any = Array.isArray(futures) ? [] : {};
+      keys.forEach((key, i) => {
+        values[key] = snapshots[i].data;
+      });
+      return {state: State.success, data: values};
+    },
+    undefined,
+    options,
+  );
+}
+
+export function race<T>(
+  futures: Array<ReadonlyFuture<T>>,
+  options: Future.DerivationOptions<T> = {},
+): ReadonlyFuture<T> {
+  /**
+   * The index of the input that settled first. It is kept for as long as that
+   * input stays settled, regardless of how the others change.
+   */
+  let winner = -1;
+
+  return new CombinedFailable(
+    futures,
+    () => {
+      const snapshots = futures.map(snapshotOf);
+      if (winner < 0 || snapshots[winner].state === State.pending) {
+        winner = snapshots.findIndex(({state}) => state !== State.pending);
+      }
+      return winner < 0
+        ? {state: State.pending, data: undefined}
+        : snapshots[winner];
+    },
+    undefined,
+    options,
+  );
+}
+
+export function any<T>(
+  futures: Array<ReadonlyFuture<T>>,
+  options: Future.DerivationOptions<T> = {},
+): ReadonlyFuture<T> {
+  /**
+   * The index of the input that succeeded first. It is kept for as long as
+   * that input stays a success, regardless of how the others change.
+   */
+  let winner = -1;
+
+  return new CombinedFailable(
+    futures,
+    () => {
+      const snapshots = futures.map(snapshotOf);
+      if (winner < 0 || snapshots[winner].state !== State.success) {
+        winner = snapshots.findIndex(({state}) => state === State.success);
+      }
+      if (winner >= 0) {
+        return snapshots[winner];
+      }
+      if (snapshots.every(({state}) => state === State.failure)) {
+        const errors = snapshots.map(({data}) => data as Error);
+        return {state: State.failure, data: new AggregateError(errors)};
+      }
+      return {state: State.pending, data: undefined};
+    },
+    undefined,
+    options,
+  );
+}
@@ -1,18 +1,20 @@
-import {computed, when} from 'mobx';
+import {computed, getDebugName, getObserverTree, spy, when} from 'mobx';
 
 import {Failable as F} from '.';
+import {AggregateError, CancellationError, TimeoutError} from '../errors';
 import {Future} from '../future';
 import {expose} from '../internal';
+import {registerErrorReviver} from '../json';
 
 describe('Failable', () => {
-  class Failable<T> extends F<T> {
+  class Failable<T, E extends Error = Error> extends F<T, E> {
     calledSuccess = false;
     didBecomeSuccess(_: T) {
       this.calledSuccess = true;
     }
 
     calledFailure = false;
-    didBecomeFailure(_: Error) {
+    didBecomeFailure(_: E) {
       this.calledFailure = true;
     }
 
@@ -37,6 +39,87 @@ describe('Failable', () => {
     it('initializes the state as pending', () => {
       expect(f.state).toEqual(Future.State.pending);
     });
+
+    it('names the Failable after the name option', () => {
+      const named = new Failable<number>({name: 'userProfile'});
+
+      expect(named.name).toBe('userProfile');
+      expect(getDebugName(named, 'state')).toBe('userProfile.state');
+      expect(named.toString()).toMatch(/^userProfile \{/);
+    });
+
+    it('names actions after the name option', () => {
+      const named = new Failable<number>({name: 'userProfile'});
+      const actions: string[] = [];
+      const stop = spy(event => {
+        if (event.type === 'action') {
+          actions.push(event.name);
+        }
+      });
+      named.success(successValue);
+      stop();
+
+      expect(actions).toEqual(['userProfile.success']);
+    });
+
+    it('is named by MobX otherwise', () => {
+      expect(new Failable<number>().name).toMatch(/^Failable@/);
+    });
+
+    it('starts with the initial snapshot without lifecycle methods', () => {
+      const f = expose(
+        new Failable<number>({
+          initial: {state: Future.State.success, data: successValue},
+        }),
+      );
+
+      expect(f.state).toEqual(Future.State.success);
+      expect(f.data).toBe(successValue);
+      expect(f.calledSuccess).toBe(false);
+    });
+
+    it('keeps equal success values', () => {
+      const f = expose(
+        new Failable<{id: number}>({
+          equals: (a, b) => a.id === b.id,
+        }).success({id: 1}),
+      );
+      const stored = f.data;
+      f.success({id: 1});
+
+      expect(f.data).toBe(stored);
+      f.success({id: 2});
+      expect(f.data).toEqual({id: 2});
+    });
+  });
+
+  describe('static success', () => {
+    it('creates a success', () => {
+      const f = expose(F.success(successValue, {name: 'userProfile'}));
+
+      expect(f.state).toEqual(Future.State.success);
+      expect(f.data).toBe(successValue);
+      expect(f.name).toBe('userProfile');
+    });
+
+    it('is mirrored by derivations right away', () => {
+      const f = F.success(successValue);
+      const d = f.map(v => v + 1);
+      const listener = jest.fn();
+      d.onTransition(listener);
+
+      expect(d.successOr(undefined)).toBe(successValue + 1);
+      expect(listener).not.toBeCalled();
+    });
+  });
+
+  describe('static failure', () => {
+    it('creates a failure', () => {
+      const f = expose(F.failure(failureValue));
+
+      expect(f.state).toEqual(Future.State.failure);
+      expect(f.data).toBe(failureValue);
+    });
   });
 
   describe('success', () => {
@@ -221,6 +304,525 @@ describe('Failable', () => {
         },
       );
     });
+
+    it('ignores a promise once a newer one is accepted', () => {
+      const f = expose(new Failable<number>());
+      const stale = Promise.resolve(successValue);
+      f.accept(stale);
+      f.accept(never);
+
+      return stale.then(() => {
+        expect(f.state).toEqual(Future.State.pending);
+        expect(f.data).toBeUndefined();
+      });
+    });
+
+    it('settles with the newest promise regardless of order', () => {
+      const f = expose(new Failable<number>());
+      const newest = Promise.resolve(successValue);
+      f.accept(rejected);
+      f.accept(newest);
+
+      return Promise.all([newest, rejected.catch(() => undefined)]).then(() => {
+        expect(f.state).toEqual(Future.State.success);
+        expect(f.data).toEqual(successValue);
+      });
+    });
+
+    it('reports a superseded result', () => {
+      const superseded = jest.fn();
+      const f = new Failable<number>();
+      const stale = Promise.resolve(successValue);
+      f.accept(stale, {superseded});
+      f.accept(never);
+
+      return stale.then(() => {
+        expect(superseded).toBeCalledWith(Future.State.success, successValue);
+      });
+    });
+
+    it('maps a rejection with mapError', () => {
+      class TypedError extends Error {
+        constructor(readonly reason: any) {
+          super();
+        }
+      }
+      const f = expose(new Failable<number, TypedError>());
+      const reason = 'foo';
+      const promise = Promise.reject(reason);
+      f.accept(promise, {mapError: r => new TypedError(r)});
+
+      return promise.catch(() => {
+        expect(f.state).toEqual(Future.State.failure);
+        expect(f.failureOr(undefined)!.reason).toBe(reason);
+      });
+    });
+
+    it('fails with the error thrown by mapError', () => {
+      const f = new Failable<number>();
+      const thrown = new Error('mapError failed');
+      const promise = Promise.reject('foo');
+      f.accept(promise, {
+        mapError: () => {
+          throw thrown;
+        },
+      });
+
+      return promise.catch(() => {
+        expect(f.state).toEqual(Future.State.failure);
+        expect(f.failureOr(undefined)).toBe(thrown);
+      });
+    });
+
+    it('fails with the error thrown by mapError on cancel', () => {
+      const f = new Failable<number>();
+      const thrown = new Error('mapError failed');
+      f.accept(never, {
+        mapError: () => {
+          throw thrown;
+        },
+      });
+      f.cancel();
+
+      expect(f.state).toEqual(Future.State.failure);
+      expect(f.failureOr(undefined)).toBe(thrown);
+    });
+
+    it('passes an AbortSignal to a factory', () => {
+      const f = new Failable<number>();
+      const factory = jest.fn(() => never);
+      f.accept(factory);
+
+      expect(factory).toBeCalledWith(expect.any(AbortSignal));
+    });
+
+    it('aborts a factory once a newer promise is accepted', () => {
+      const f = new Failable<number>();
+      let signal: AbortSignal | undefined;
+      f.accept(s => {
+        signal = s;
+        return never;
+      });
+      f.accept(never);
+
+      expect(signal!.aborted).toBe(true);
+    });
+
+    it('keeps the current promise when a factory throws', () => {
+      const f = new Failable<number>();
+      let signal: AbortSignal | undefined;
+      f.accept(s => {
+        signal = s;
+        return never;
+      });
+
+      expect(() =>
+        f.accept(() => {
+          throw failureValue;
+        }),
+      ).toThrow(failureValue);
+      expect(signal!.aborted).toBe(false);
+      f.cancel();
+      expect(signal!.aborted).toBe(true);
+    });
+
+    describe('with timeoutMs', () => {
+      beforeEach(() => jest.useFakeTimers());
+      afterEach(() => jest.useRealTimers());
+
+      it('fails with a TimeoutError once the time is up', () => {
+        const f = expose(new Failable<number>());
+        f.accept(never, {timeoutMs: 100});
+
+        jest.advanceTimersByTime(99);
+        expect(f.state).toEqual(Future.State.pending);
+
+        jest.advanceTimersByTime(1);
+        expect(f.state).toEqual(Future.State.failure);
+        expect(f.data).toBeInstanceOf(TimeoutError);
+        expect((f.data as TimeoutError).timeoutMs).toBe(100);
+      });
+
+      it('maps the TimeoutError with mapError', () => {
+        class TypedError extends Error {
+          constructor(readonly reason: any) {
+            super();
+          }
+        }
+        const f = new Failable<number, TypedError>();
+        f.accept(never, {mapError: r => new TypedError(r), timeoutMs: 100});
+        jest.advanceTimersByTime(100);
+
+        expect(f.failureOr(undefined)!.reason).toBeInstanceOf(TimeoutError);
+      });
+
+      it('ignores a result arriving after the timeout', () => {
+        const superseded = jest.fn();
+        const f = expose(new Failable<number>());
+        let resolve: (value: number) => void;
+        const late = new Promise<number>(r => (resolve = r));
+        f.accept(late, {superseded, timeoutMs: 100});
+        jest.advanceTimersByTime(100);
+        resolve!(successValue);
+
+        return late.then(() => {
+          expect(f.data).toBeInstanceOf(TimeoutError);
+          expect(superseded).not.toBeCalled();
+        });
+      });
+
+      it('does not fail once the promise has settled', () => {
+        const f = expose(new Failable<number>());
+        f.accept(resolved, {timeoutMs: 100});
+
+        return resolved.then(() => {
+          jest.advanceTimersByTime(100);
+          expect(f.state).toEqual(Future.State.success);
+        });
+      });
+
+      it('aborts a factory', () => {
+        const f = new Failable<number>();
+        let signal: AbortSignal | undefined;
+        f.accept(
+          s => {
+            signal = s;
+            return never;
+          },
+          {timeoutMs: 100},
+        );
+        jest.advanceTimersByTime(100);
+
+        expect(signal!.aborted).toBe(true);
+      });
+    });
+  });
+
+  describe('cancel', () => {
+    const never = new Promise<never>((_resolve, _reject) => {
+      /* */
+    });
+
+    it('transitions from pending to failure', () => {
+      const f = expose(new Failable<number>());
+      f.accept(never);
+      f.cancel();
+
+      expect(f.state).toEqual(Future.State.failure);
+      expect(f.data).toBeInstanceOf(CancellationError);
+    });
+
+    it('maps the CancellationError with mapError', () => {
+      class TypedError extends Error {
+        constructor(readonly reason: any) {
+          super();
+        }
+      }
+      const f = new Failable<number, TypedError>();
+      f.accept(never, {mapError: r => new TypedError(r)});
+      f.cancel();
+
+      expect(f.failureOr(undefined)!.reason).toBeInstanceOf(CancellationError);
+    });
+
+    it('leaves pending as-is without an accepted promise', () => {
+      const f = expose(make.pending());
+      f.cancel();
+
+      expect(f.state).toEqual(Future.State.pending);
+      expect(f.calledFailure).toBe(false);
+    });
+
+    it('leaves a success as-is', () => {
+      const f = expose(make.success());
+      f.cancel();
+
+      expect(f.state).toEqual(Future.State.success);
+      expect(f.data).toEqual(successValue);
+    });
+
+    it('leaves a failure as-is', () => {
+      const f = expose(make.failure());
+      f.cancel();
+
+      expect(f.state).toEqual(Future.State.failure);
+      expect(f.data).toEqual(failureValue);
+    });
+
+    it('prevents the accepted promise from settling', () => {
+      const f = expose(new Failable<number>());
+      const resolved = Promise.resolve(successValue);
+      f.accept(resolved);
+      f.cancel();
+
+      return resolved.then(() => {
+        expect(f.state).toEqual(Future.State.failure);
+        expect(f.data).toBeInstanceOf(CancellationError);
+      });
+    });
+
+    it('aborts a factory', () => {
+      const f = new Failable<number>();
+      let signal: AbortSignal | undefined;
+      f.accept(s => {
+        signal = s;
+        return never;
+      });
+      f.cancel();
+
+      expect(signal!.aborted).toBe(true);
+    });
+  });
+
+  describe('whenSettled', () => {
+    it('resolves with the Failable once it is settled', () => {
+      const f = make.pending();
+      const settled = f.whenSettled();
+      f.success(successValue);
+
+      return expect(settled).resolves.toBe(f);
+    });
+
+    it('resolves right away when already settled', () => {
+      const f = make.failure();
+
+      return expect(f.whenSettled()).resolves.toBe(f);
+    });
+
+    it('rejects with a TimeoutError once timeoutMs is up', () => {
+      const f = make.pending();
+
+      return expect(f.whenSettled({timeoutMs: 0})).rejects.toBeInstanceOf(
+        TimeoutError,
+      );
+    });
+
+    it('rejects with a CancellationError once the signal is aborted', () => {
+      const f = make.pending();
+      const controller = new AbortController();
+      const settled = f.whenSettled({signal: controller.signal});
+      controller.abort();
+
+      return expect(settled).rejects.toBeInstanceOf(CancellationError);
+    });
+  });
+
+  describe('toPromise', () => {
+    it('resolves with the next success value', () => {
+      const f = make.pending();
+      const promise = f.toPromise();
+      f.success(successValue);
+
+      return expect(promise).resolves.toBe(successValue);
+    });
+
+    it('rejects with the next error', () => {
+      const f = make.pending();
+      const promise = f.toPromise();
+      f.failure(failureValue);
+
+      return expect(promise).rejects.toBe(failureValue);
+    });
+
+    it('unwraps the state it settled with', () => {
+      const f = make.pending();
+      const promise = f.toPromise();
+      f.success(successValue);
+      f.pending();
+
+      return expect(promise).resolves.toBe(successValue);
+    });
+  });
+
+  describe('onTransition', () => {
+    it('invokes the listener on each transition', () => {
+      const f = make.pending();
+      const listener = jest.fn();
+      f.onTransition(listener);
+      f.success(successValue);
+      f.failure(failureValue);
+
+      expect(listener.mock.calls).toEqual([
+        [Future.State.pending, Future.State.success, successValue],
+        [Future.State.success, Future.State.failure, failureValue],
+      ]);
+    });
+
+    it('ignores changes that keep the state', () => {
+      const f = make.success();
+      const listener = jest.fn();
+      f.onTransition(listener);
+      f.success(successValue + 1);
+
+      expect(listener).not.toBeCalled();
+    });
+
+    it('stops once disposed', () => {
+      const f = make.pending();
+      const listener = jest.fn();
+      f.onTransition(listener)();
+      f.success(successValue);
+
+      expect(listener).not.toBeCalled();
+    });
+  });
+
+  describe('Symbol.asyncIterator', () => {
+    it('yields the current snapshot when settled', () => {
+      const f = make.success();
+      const transitions = f[Symbol.asyncIterator]();
+
+      return expect(transitions.next()).resolves.toEqual({
+        value: {state: Future.State.success, data: successValue},
+        done: false,
+      });
+    });
+
+    it('yields each settled transition in order', async () => {
+      const f = make.pending();
+      const transitions = f[Symbol.asyncIterator]();
+      f.success(successValue);
+      f.pending();
+      f.failure(failureValue);
+
+      expect(await transitions.next()).toEqual({
+        value: {state: Future.State.success, data: successValue},
+        done: false,
+      });
+      expect(await transitions.next()).toEqual({
+        value: {state: Future.State.failure, data: failureValue},
+        done: false,
+      });
+    });
+
+    it('can be consumed with for await', async () => {
+      const f = make.pending();
+      const states: Future.State[] = [];
+      setTimeout(() => f.success(successValue).failure(failureValue));
+
+      for await (const {state} of f) {
+        states.push(state);
+        if (state === Future.State.failure) {
+          break;
+        }
+      }
+
+      expect(states).toEqual([Future.State.success, Future.State.failure]);
+    });
+
+    it('ends once returned', async () => {
+      const f = make.pending();
+      const transitions = f[Symbol.asyncIterator]();
+      const next = transitions.next();
+      await transitions.return!();
+      f.success(successValue);
+
+      expect(await next).toEqual({done: true});
+      expect(await transitions.next()).toEqual({done: true});
+    });
+  });
+
+  describe('toJSON', () => {
+    it('serializes a success value', () => {
+      expect(make.success().toJSON()).toEqual({
+        state: Future.State.success,
+        data: successValue,
+      });
+    });
+
+    it('serializes pending without data', () => {
+      expect(JSON.stringify(make.pending())).toBe('{"state":"pending"}');
+    });
+
+    it('serializes an error with its own properties', () => {
+      const error = Object.assign(new Error('foo'), {code: 42});
+      const json = new Failable<number>().failure(error).toJSON();
+
+      expect(json).toEqual({
+        state: Future.State.failure,
+        data: {name: 'Error', message: 'foo', stack: error.stack, code: 42},
+      });
+    });
+
+    it('serializes nested errors', () => {
+      const error = new AggregateError([new Error('foo')]);
+      const {data} = JSON.parse(
+        JSON.stringify(new Failable<number>().failure(error)),
+      );
+
+      expect(data.name).toBe('AggregateError');
+      expect(data.errors[0].message).toBe('foo');
+    });
+  });
+
+  describe('fromJSON', () => {
+    class CustomError extends Error {
+      constructor(readonly code: number) {
+        super('custom');
+        Object.setPrototypeOf(this, CustomError.prototype);
+        this.name = 'CustomError';
+      }
+    }
+
+    registerErrorReviver('CustomError', ({code}) => new CustomError(code));
+
+    function roundTrip<T>(f: F<T>) {
+      return expose(F.fromJSON<T>(JSON.parse(JSON.stringify(f))));
+    }
+
+    it('rehydrates a success', () => {
+      const f = roundTrip(make.success());
+
+      expect(f.state).toEqual(Future.State.success);
+      expect(f.data).toEqual(successValue);
+    });
+
+    it('rehydrates pending', () => {
+      const f = roundTrip(make.failure().pending());
+
+      expect(f.state).toEqual(Future.State.pending);
+      expect(f.data).toBeUndefined();
+    });
+
+    it('revives an unregistered error as a plain error', () => {
+      const error = Object.assign(new RangeError('foo'), {code: 42});
+      const f = roundTrip(new Failable<number>().failure(error));
+
+      expect(f.data).toBeInstanceOf(Error);
+      expect(f.data).toMatchObject({name: 'RangeError', message: 'foo'});
+      expect((f.data as any).code).toBe(42);
+      expect((f.data as Error).stack).toBe(error.stack);
+    });
+
+    it('revives a registered error with its reviver', () => {
+      const f = roundTrip(new Failable<number>().failure(new CustomError(42)));
+
+      expect(f.data).toBeInstanceOf(CustomError);
+      expect((f.data as CustomError).code).toBe(42);
+    });
+
+    it('revives built-in errors', () => {
+      const error = new AggregateError([new TimeoutError(100)]);
+      const f = roundTrip(new Failable<number>().failure(error));
+
+      expect(f.data).toBeInstanceOf(AggregateError);
+      expect((f.data as AggregateError).errors[0]).toBeInstanceOf(TimeoutError);
+    });
+
+    it('does not invoke lifecycle methods', () => {
+      const didBecomeSuccess = jest.spyOn(
+        F.prototype as any,
+        'didBecomeSuccess',
+      );
+      F.fromJSON({state: Future.State.success, data: successValue});
+
+      expect(didBecomeSuccess).not.toBeCalled();
+      didBecomeSuccess.mockRestore();
+    });
+
+    it('throws on an invalid state', () => {
+      expect(() => F.fromJSON({state: 'foo' as any})).toThrow(TypeError);
+    });
   });
 
   describe('successOr', () => {
@@ -316,4 +918,223 @@ describe('Failable', () => {
       expect(g.state).toBe(f.state);
     });
   });
+
+  describe('flatMap', () => {
+    it('syncs with the returned future', () => {
+      const f = make.success();
+      const inner = new Failable<string>();
+      const g = expose(f.flatMap(() => inner));
+
+      expect(g.state).toBe(Future.State.pending);
+      inner.success('foo');
+      expect(g.state).toBe(Future.State.success);
+      expect(g.data).toBe('foo');
+    });
+
+    it('passes through a failure', () => {
+      const f = make.failure();
+      const g = expose(f.flatMap(() => make.success()));
+
+      expect(g.state).toBe(Future.State.failure);
+      expect(g.data).toBe(failureValue);
+    });
+
+    it('switches to a new future when the value changes', () => {
+      const f = make.success();
+      const g = expose(
+        f.flatMap(v => (v === successValue ? make.pending() : make.success())),
+      );
+
+      expect(g.state).toBe(Future.State.pending);
+      f.success(successValue + 1);
+      expect(g.state).toBe(Future.State.success);
+    });
+
+    it('accepts a returned promise', () => {
+      const f = make.success();
+      const resolved = Promise.resolve('foo');
+      const g = expose(f.flatMap(() => resolved));
+
+      expect(g.state).toBe(Future.State.pending);
+      return resolved.then(() => {
+        expect(g.state).toBe(Future.State.success);
+        expect(g.data).toBe('foo');
+      });
+    });
+
+    it('discards the result of a promise made for an earlier value', () => {
+      const f = make.success();
+      const stale = Promise.resolve('stale');
+      const never = new Promise<string>(() => undefined);
+      const g = expose(f.flatMap(v => (v === successValue ? stale : never)));
+
+      f.success(successValue + 1);
+      return stale.then(() => {
+        expect(g.state).toBe(Future.State.pending);
+      });
+    });
+
+    it('disposes the derivations made for earlier values', () => {
+      const f = make.success();
+      const other = make.success();
+      const g = f.flatMap(v => other.map(w => v + w));
+      const observers = () =>
+        (getObserverTree(other, 'state').observers || []).length;
+
+      f.success(successValue + 1);
+      f.success(successValue + 2);
+      expect(observers()).toBe(1);
+      expect(g.successOr(undefined)).toBe(successValue * 2 + 2);
+
+      g.dispose();
+      expect(observers()).toBe(0);
+    });
+
+    it('becomes a failure when the function throws', () => {
+      const f = make.success();
+      const g = expose(
+        f.flatMap(() => {
+          throw failureValue;
+        }),
+      );
+
+      expect(g.state).toBe(Future.State.failure);
+      expect(g.data).toBe(failureValue);
+    });
+
+    it('takes the name and equals options', () => {
+      const f = make.success();
+      const inner = make.success();
+      const g = expose(
+        f.flatMap(() => Failable.all([make.success(), inner]), {
+          name: 'flat',
+          equals: (a, b) => a[0] === b[0],
+        }),
+      );
+      const data = g.data;
+      inner.success(successValue + 1);
+
+      expect(getDebugName(g, 'state')).toBe('flat.state');
+      expect(g.data).toBe(data);
+    });
+  });
+
+  describe('all', () => {
+    it('is a success with all values when all are successes', () => {
+      const g = expose(Failable.all([make.success(), make.success()]));
+
+      expect(g.state).toBe(Future.State.success);
+      expect(g.data).toEqual([successValue, successValue]);
+    });
+
+    it('preserves the keys of an object', () => {
+      const g = expose(Failable.all({a: make.success(), b: make.success()}));
+
+      expect(g.data).toEqual({a: successValue, b: successValue});
+    });
+
+    it('is a failure when any is a failure', () => {
+      const g = expose(Failable.all([make.pending(), make.failure()]));
+
+      expect(g.state).toBe(Future.State.failure);
+      expect(g.data).toBe(failureValue);
+    });
+
+    it('is pending when any is pending', () => {
+      const g = expose(Failable.all([make.success(), make.pending()]));
+
+      expect(g.state).toBe(Future.State.pending);
+    });
+
+    it('updates as its inputs change', () => {
+      const f = make.pending();
+      const g = expose(Failable.all([make.success(), f]));
+
+      f.success(successValue + 1);
+      expect(g.state).toBe(Future.State.success);
+      expect(g.data).toEqual([successValue, successValue + 1]);
+    });
+
+    it('takes the name and equals options', () => {
+      const f = make.success();
+      const g = expose(
+        Failable.all([make.success(), f], {
+          name: 'combined',
+          equals: (a, b) => a[0] === b[0],
+        }),
+      );
+      const data = g.data;
+      f.success(successValue + 1);
+
+      expect(getDebugName(g, 'state')).toBe('combined.state');
+      expect(g.data).toBe(data);
+    });
+  });
+
+  describe('race', () => {
+    it('is pending while all are pending', () => {
+      const g = expose(Failable.race([make.pending(), make.pending()]));
+
+      expect(g.state).toBe(Future.State.pending);
+    });
+
+    it('settles like the first to leave pending', () => {
+      const [f1, f2] = [make.pending(), make.pending()];
+      const g = expose(Failable.race([f1, f2]));
+
+      f2.failure(failureValue);
+      f1.success(successValue);
+      expect(g.state).toBe(Future.State.failure);
+      expect(g.data).toBe(failureValue);
+    });
+
+    it('picks another once the first becomes pending again', () => {
+      const [f1, f2] = [make.success(), make.failure()];
+      const g = expose(Failable.race([f1, f2]));
+
+      f1.pending();
+      expect(g.state).toBe(Future.State.failure);
+      expect(g.data).toBe(failureValue);
+    });
+
+    it('takes the name option', () => {
+      const g = Failable.race([make.pending()], {name: 'raced'});
+
+      expect(getDebugName(g, 'state')).toBe('raced.state');
+    });
+  });
+
+  describe('any', () => {
+    it('is a success like the first to succeed', () => {
+      const [f1, f2] = [make.failure(), make.pending()];
+      const g = expose(Failable.any([f1, f2]));
+
+      f2.success(successValue);
+      expect(g.state).toBe(Future.State.success);
+      expect(g.data).toBe(successValue);
+    });
+
+    it('is pending while any is pending and none succeeded', () => {
+      const g = expose(Failable.any([make.failure(), make.pending()]));
+
+      expect(g.state).toBe(Future.State.pending);
+    });
+
+    it('is a failure with every error once all are failures', () => {
+      const other = new Error('other');
+      const f = make.pending();
+      const g = expose(Failable.any([make.failure(), f]));
+
+      f.failure(other);
+      expect(g.state).toBe(Future.State.failure);
+      expect(g.data).toBeInstanceOf(AggregateError);
+      expect((g.data as AggregateError).errors).toEqual([failureValue, other]);
+    });
+
+    it('takes the name option', () => {
+      const g = Failable.any([make.pending()], {name: 'first'});
+
+      expect(getDebugName(g, 'state')).toBe('first.state');
+    });
+  });
 });
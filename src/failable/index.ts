@@ -1,9 +1,23 @@
-import {action, computed, observable} from 'mobx';
+import {action, comparer, computed, getDebugName, observable} from 'mobx';
 
-import {accept, failureOr, successOr} from '../extensions';
+import {markHandled, reportFailure, silence} from '../config';
+import {CancellationError} from '../errors';
+import {
+  accept,
+  cancel,
+  dispose,
+  failureOr,
+  onTransition,
+  successOr,
+  toPromise,
+  transitions,
+  whenSettled,
+} from '../extensions';
 import {Future, ReadonlyFuture} from '../future';
+import {boundAction, rename} from '../internal';
+import {reviveSnapshot, Serialized, serializeSnapshot} from '../json';
 import {Lazy} from '../lazy';
-import {derive, map, rescue} from './extensions';
+import {all, any, derive, flatMap, map, race, rescue} from './extensions';
 import {match} from './match';
 
 const State = Future.State;
@@ -17,12 +31,134 @@ const State = Future.State;
  * between these states. The computed properties indicate the current state,
  * but for day-to-day usage, prefer the `match` method.
  */
-export class Failable<T> implements Future<T> {
-  @observable protected data: T | Error | undefined = undefined;
+export class Failable<T, E extends Error = Error> implements Future<T, E> {
+  /**
+   * Combines the given Futures, given as either a tuple or an object, into a
+   * ReadonlyFuture of their success values of the same shape. The combination
+   * is a success once all of them are, a failure as soon as any of them is,
+   * and pending otherwise. With several failures, the first one is picked.
+   */
+  static all = all;
+
+  /**
+   * Combines the given Futures into a ReadonlyFuture that settles like
+   * whichever of them first leaves pending, for as long as that one stays
+   * settled. It is pending while all of them are.
+   */
+  static race = race;
+
+  /**
+   * Combines the given Futures into a ReadonlyFuture that is a success like
+   * whichever of them first becomes a success, for as long as that one stays
+   * a success. It is a failure with an `AggregateError` of every error once
+   * all of them are failures, and pending otherwise.
+   */
+  static any = any;
+
+  /**
+   * Rehydrates a Failable from the JSON form produced by `toJSON`. Errors are
+   * revived by the reviver registered for their name, if any, or as plain
+   * errors otherwise. No lifecycle methods are invoked.
+   * @param json The JSON form of a Failable
+   * @param options Options that customize the new Failable
+   * @returns A new Failable with the given state and data
+   */
+  static fromJSON<T, E extends Error = Error>(
+    json: Serialized<T, Future.State>,
+    options?: Failable.Options<T, E>,
+  ): Failable<T, E> {
+    return new Failable<T, E>(options).hydrate(json);
+  }
+
+  /**
+   * Creates a Failable that is already a success with the given value. No
+   * lifecycle methods are invoked.
+   * @param value The value associated with the success
+   * @param options Options that customize the new Failable
+   * @returns A new Failable that is a success
+   */
+  static success<T, E extends Error = Error>(
+    value: T,
+    options: Failable.Options<T, E> = {},
+  ): Failable<T, E> {
+    return new Failable<T, E>({
+      ...options,
+      initial: {state: State.success, data: value},
+    });
+  }
+
+  /**
+   * Creates a Failable that is already a failure with the given error. No
+   * lifecycle methods are invoked.
+   * @param error The error associated with the failure
+   * @param options Options that customize the new Failable
+   * @returns A new Failable that is a failure
+   */
+  static failure<T, E extends Error = Error>(
+    error: E,
+    options: Failable.Options<T, E> = {},
+  ): Failable<T, E> {
+    return new Failable<T, E>({
+      ...options,
+      initial: {state: State.failure, data: error},
+    });
+  }
+
+  @observable protected data: T | E | undefined = undefined;
   @observable protected state: Future.State = State.pending;
+  protected equals: (a: T, b: T) => boolean;
+
+  /**
+   * Creates a Failable, which is pending unless an `initial` snapshot is
+   * given, in which case no lifecycle methods are invoked. See
+   * `Failable.Options` for the other options.
+   * @param options Options that customize this Failable
+   */
+  constructor(options: Failable.Options<T, E> = {}) {
+    const {name, initial, equals = comparer.identity} = options;
+    if (name !== undefined) {
+      rename(this, name);
+    }
+    if (initial) {
+      this.state = initial.state;
+      this.data = initial.data;
+    }
+    this.equals = equals;
+  }
+
+  /**
+   * The name of this Failable, as given to the constructor, or as generated by
+   * MobX otherwise.
+   */
+  get name(): string {
+    return getDebugName(this);
+  }
 
   toString(): string {
-    return `Failable { state=${this.state}, data=${this.data} }`;
+    return `${this.name} { state=${this.state}, data=${this.data} }`;
+  }
+
+  /**
+   * Returns the JSON form of this Failable: its state, and its data, if any.
+   * An error is serialized as its name, message, stack and own properties.
+   */
+  toJSON(): Serialized<T, Future.State> {
+    return serializeSnapshot(
+      {state: this.state, data: this.data},
+      this.isFailure,
+    );
+  }
+
+  @action
+  protected hydrate(json: Serialized<T, Future.State>): this {
+    const {state, data} = reviveSnapshot<T, Future.State, E>(
+      State,
+      json,
+      s => s === State.failure,
+    );
+    this.state = state;
+    this.data = data;
+    return this;
   }
 
   /**
@@ -54,10 +190,12 @@ export class Failable<T> implements Future<T> {
    * @param data The value associated with the success.
    * @returns This, enabling chaining.
    */
-  @action.bound
+  @boundAction
   success(data: T): this {
+    if (!this.isSuccess || !this.equals(this.data as T, data)) {
+      this.data = data;
+    }
     this.state = State.success;
-    this.data = data;
     this.didBecomeSuccess(data);
     return this;
   }
@@ -75,11 +213,12 @@ export class Failable<T> implements Future<T> {
    * @param error The error associated with the failure.
    * @returns This, enabling chaining.
    */
-  @action.bound
-  failure(error: Error): this {
+  @boundAction
+  failure(error: E): this {
     this.state = State.failure;
     this.data = error;
     this.didBecomeFailure(error);
+    reportFailure(this, error);
     return this;
   }
 
@@ -87,7 +226,7 @@ export class Failable<T> implements Future<T> {
    * A lifecycle method that is invoked after this Failable becomes a success.
    * This can be overridden in a subclass.
    */
-  protected didBecomeFailure(_error: Error): void {
+  protected didBecomeFailure(_error: E): void {
     /* */
   }
 
@@ -95,7 +234,7 @@ export class Failable<T> implements Future<T> {
    * Sets this Failable to pending.
    * @returns This, enabling chaining.
    */
-  @action.bound
+  @boundAction
   pending(): this {
     this.state = State.pending;
     this.data = undefined;
@@ -117,7 +256,8 @@ export class Failable<T> implements Future<T> {
    * @param options An object of callbacks to be invoked according to the state.
    * @returns The return value of whichever callback was selected.
    */
-  match<A, B, C>(options: Future.MatchOptions<T, A, B, C>): A | B | C {
+  match<A, B, C>(options: Future.MatchOptions<T, A, B, C, E>): A | B | C {
+    markHandled(this);
     return match(this.state, this.data, options);
   }
 
@@ -126,11 +266,40 @@ export class Failable<T> implements Future<T> {
    * then either setting this Failable to a success if the promise was
    * fulfilled, or setting this Failable to a failure if the promise was
    * rejected.
-   * @param promise A promise to be accepted
+   *
+   * Only the most recently accepted promise may settle this Failable. When an
+   * earlier promise settles after a newer one was accepted, its result is
+   * dropped.
+   *
+   * Instead of a promise, a factory that takes an `AbortSignal` can be given.
+   * The signal is aborted once the promise is superseded or cancelled.
+   * @param source A promise, or a promise factory, to be accepted
+   * @param options Options that customize how the promise is accepted
+   * @returns This, enabling chaining.
+   */
+  accept(source: Future.Source<T>, options?: Future.AcceptOptions<T, E>): this {
+    accept(this, source, options);
+    return this;
+  }
+
+  /**
+   * Cancels the accepted promise, if any, so that it can no longer settle
+   * this Failable, and aborts it if it was produced by a factory. If this
+   * Failable is pending on that promise, it becomes a failure with a
+   * `CancellationError`, passed through the `mapError` option the promise was
+   * accepted with, if any. As the cancellation is deliberate, that failure is
+   * not reported to the configured handlers.
    * @returns This, enabling chaining.
    */
-  accept(promise: PromiseLike<T>): this {
-    accept(this, promise);
+  @boundAction
+  cancel(): this {
+    if (!this.isPending) {
+      cancel(this);
+      return this;
+    }
+    const reason = new CancellationError();
+    silence(reason);
+    cancel(this, reason);
     return this;
   }
 
@@ -150,7 +319,7 @@ export class Failable<T> implements Future<T> {
    * @param defaultValue A possibly lazy value to use in case of non-failure
    * @returns this Failable's failure error or the provided default value
    */
-  failureOr<U>(defaultValue: Lazy<U>): Error | U {
+  failureOr<U>(defaultValue: Lazy<U>): E | U {
     return failureOr(this, defaultValue);
   }
 
@@ -166,8 +335,12 @@ export class Failable<T> implements Future<T> {
    * to the state
    * @returns A derived ReadonlyFuture
    */
-  derive<U>(options: Future.DeriveOptions<T, U>): ReadonlyFuture<U> {
-    return derive(this, options);
+  derive<U>(
+    options: Future.DeriveOptions.AtLeastFailure<T, U, E>,
+  ): ReadonlyFuture<U, Error>;
+  derive<U>(options: Future.DeriveOptions<T, U, E>): ReadonlyFuture<U, E>;
+  derive<U>(options: Future.DeriveOptions<T, U, E>): ReadonlyFuture<U, Error> {
+    return derive<T, U, E, Error>(this, options);
   }
 
   /**
@@ -177,10 +350,14 @@ export class Failable<T> implements Future<T> {
    *
    * This is a shorthand of calling `derive` with only a `success` function.
    * @param f The success transformation function
+   * @param options Options that customize the derivation
    * @returns A derived ReadonlyFuture
    */
-  map<U>(f: (value: T) => U): ReadonlyFuture<U> {
-    return map(this, f);
+  map<U>(
+    f: (value: T) => U,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyFuture<U, E> {
+    return map(this, f, options);
   }
 
   /**
@@ -191,9 +368,105 @@ export class Failable<T> implements Future<T> {
    *
    * This is a shorthand of calling `derive` with only a `failure` function.
    * @param f The failure transformation function
+   * @param options Options that customize the derivation
    * @returns A derived ReadonlyFuture
    */
-  rescue<U = T>(f: (error: Error) => U): ReadonlyFuture<U> {
-    return rescue(this, f);
+  rescue<U = T>(
+    f: (error: E) => U,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyFuture<U> {
+    return rescue<T, U, E>(this, f, options);
+  }
+
+  /**
+   * Creates a derived ReadonlyFuture that syncs with the Future returned by the
+   * provided function `f`, which is invoked with each new success value of
+   * this Failable. When `f` returns a promise instead, it is accepted into the
+   * derivation. Results made for earlier values are discarded. When `f`
+   * throws, the derivation becomes a failure.
+   *
+   * Otherwise, the derivation mirrors this Failable.
+   * @param f The function producing a Future or a promise
+   * @param options Options that customize the derivation
+   * @returns A derived ReadonlyFuture
+   */
+  flatMap<U>(
+    f: (value: T) => ReadonlyFuture<U, E> | PromiseLike<U>,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyFuture<U, E> {
+    return flatMap(this, f, options);
+  }
+
+  /**
+   * Waits for this Failable to be settled, meaning that it is no longer
+   * pending. Waiting can be cut short with the `timeoutMs` and `signal`
+   * options.
+   * @param options Options that limit how long to wait
+   * @returns A promise of this Failable
+   */
+  whenSettled(options?: Future.WaitOptions): Promise<this> {
+    return whenSettled(this, () => !this.isPending, options);
+  }
+
+  /**
+   * Waits for this Failable to be settled, like `whenSettled`, and then
+   * resolves with its success value, or rejects with its error.
+   * @param options Options that limit how long to wait
+   * @returns A promise of this Failable's success value
+   */
+  toPromise(options?: Future.WaitOptions): Promise<T> {
+    return toPromise(this, () => !this.isPending, options);
+  }
+
+  /**
+   * Iterates over the snapshots of this Failable each time it is settled,
+   * starting with the current one if it already is, so that its transitions
+   * can be consumed with `for await` outside of MobX reactions.
+   * @returns An async iterator of snapshots
+   */
+  [Symbol.asyncIterator](): AsyncIterableIterator<Future.Snapshot<T, E>> {
+    return transitions(
+      () => !this.isPending,
+      () => ({state: this.state, data: this.data}),
+    );
+  }
+
+  /**
+   * Invokes the given listener whenever this Failable transitions from one
+   * state to another, with both states and the data of the new state.
+   * @param listener The function to invoke on each transition
+   * @returns A function that stops listening
+   */
+  onTransition(listener: Future.TransitionListener<T, E>): () => void {
+    return onTransition<T, Future.State, E>(
+      () => ({state: this.state, data: this.data}),
+      listener,
+    );
+  }
+
+  /**
+   * Disposes every ReadonlyFuture derived from this Failable, which in turn
+   * disposes their own derivations, and cancels the accepted promise, if any,
+   * without changing state.
+   */
+  dispose(): void {
+    cancel(this);
+    dispose(this);
+  }
+}
+
+export namespace Failable {
+  /**
+   * Options customizes a Failable. The `name` is used by MobX for the Failable
+   * and its properties and actions. The `initial` snapshot sets the state and
+   * data to start with. The `equals` function decides whether a new success
+   * value is the same as the current one, in which case the current one is
+   * kept and observers are not notified; by default, values are compared by
+   * identity.
+   */
+  export interface Options<T = any, E extends Error = Error> {
+    name?: string;
+    initial?: Future.Snapshot<T, E>;
+    equals?: (a: T, b: T) => boolean;
   }
 }
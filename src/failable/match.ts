@@ -1,9 +1,9 @@
 import {Future} from '../future';
 
-export function match<T, A, B, C>(
+export function match<T, A, B, C, E extends Error>(
   state: Future.State,
-  data: T | Error | undefined,
-  options: Future.MatchOptions<T, A, B, C>,
+  data: T | E | undefined,
+  options: Future.MatchOptions<T, A, B, C, E>,
 ): A | B | C {
   const {success, failure, pending} = options;
 
@@ -15,7 +15,7 @@ export function match<T, A, B, C>(
     case Future.State.success:
       return success(data as T);
     case Future.State.failure:
-      return failure(data as Error);
+      return failure(data as E);
     case Future.State.pending:
       return pending();
   }
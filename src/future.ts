@@ -1,7 +1,24 @@
 import {Enum} from 'typescript-string-enums';
 
+import {
+  Snapshot as _Snapshot,
+  TransitionListener as _TransitionListener,
+} from './internal';
 import {Lazy} from './lazy';
 
+declare global {
+  /**
+   * The subset of the DOM `AbortSignal` that this library relies on, so that
+   * it compiles without the DOM typings. Where those are present, this merges
+   * into their declaration.
+   */
+  interface AbortSignal {
+    readonly aborted: boolean;
+    addEventListener(type: 'abort', listener: () => void): void;
+    removeEventListener(type: 'abort', listener: () => void): void;
+  }
+}
+
 /**
  * Future is a reactive counterpart to a Promise with MobX semantics. It has
  * three states: pending, success, and failure. It is an interface-only common
@@ -10,8 +27,12 @@ import {Lazy} from './lazy';
  * The methods `success`, `failure`, and `pending` are actions used to change
  * between these states. The read-only properties are computed and indicate the
  * current state, but for day-to-day usage, prefer the `match` method.
+ *
+ * The optional type parameter `E` narrows the type of errors. Errors thrown by
+ * transform functions, such as those given to `map`, are not checked against
+ * it.
  */
-export interface Future<T> {
+export interface Future<T, E extends Error = Error> {
   /**
    * Indicates if this Future is a success.
    */
@@ -39,7 +60,7 @@ export interface Future<T> {
    * @param error The error associated with the failure.
    * @returns This, enabling chaining.
    */
-  failure(error: Error): this;
+  failure(error: E): this;
 
   /**
    * Sets this Future to pending.
@@ -53,16 +74,31 @@ export interface Future<T> {
    * @param options An object of callbacks to be invoked according to the state.
    * @returns The return value of whichever callback was selected.
    */
-  match<A, B, C>(options: Future.MatchOptions<T, A, B, C>): A | B | C;
+  match<A, B, C>(options: Future.MatchOptions<T, A, B, C, E>): A | B | C;
 
   /**
    * Accepts a promise by immediately setting this Future to pending, and then
    * either setting this Future to a success if the promise was fulfilled, or
    * setting this Future to a failure if the promise was rejected.
-   * @param promise A promise to be accepted
+   *
+   * Only the most recently accepted promise may settle this Future. When an
+   * earlier promise settles after a newer one was accepted, its result is
+   * dropped.
+   *
+   * Instead of a promise, a factory that takes an `AbortSignal` can be given.
+   * The signal is aborted once the promise is superseded or cancelled.
+   * @param source A promise, or a promise factory, to be accepted
+   * @param options Options that customize how the promise is accepted
    * @returns This, enabling chaining.
    */
-  accept(promise: PromiseLike<T>): this;
+  accept(source: Future.Source<T>, options?: Future.AcceptOptions<T, E>): this;
+
+  /**
+   * Cancels the accepted promise, if any, so that it can no longer settle
+   * this Future, and aborts it if it was produced by a factory.
+   * @returns This, enabling chaining.
+   */
+  cancel(): this;
 
   /**
    * Returns this Future's success value if it is a success, or the provided
@@ -78,7 +114,7 @@ export interface Future<T> {
    * @param defaultValue A possibly lazy value to use in case of non-failure
    * @returns this Future's failure error or the provided default value
    */
-  failureOr<U>(defaultValue: Lazy<U>): Error | U;
+  failureOr<U>(defaultValue: Lazy<U>): E | U;
 
   /**
    * Derives a ReadonlyFuture that syncs with this Future using the given
@@ -87,12 +123,17 @@ export interface Future<T> {
    * error will turn it into a failure with that error value.
    *
    * The resulting derivation updates as the Future it is derived from updates
-   * and changes state.
+   * and changes state. Its errors keep the type `E`, unless a `failure`
+   * function is given, in which case every error goes through it, and the
+   * derivation's errors are typed as `Error`.
    * @param options An object of transform functions to be invoked according
    * to the state
    * @returns A derived ReadonlyFuture
    */
-  derive<U>(options: Future.DeriveOptions<T, U>): ReadonlyFuture<U>;
+  derive<U>(
+    options: Future.DeriveOptions.AtLeastFailure<T, U, E>,
+  ): ReadonlyFuture<U, Error>;
+  derive<U>(options: Future.DeriveOptions<T, U, E>): ReadonlyFuture<U, E>;
 
   /**
    * Creates a derived ReadonlyFuture that syncs with this Future, except
@@ -101,9 +142,13 @@ export interface Future<T> {
    *
    * This is a shorthand of calling `derive` with only a `success` function.
    * @param f The success transformation function
+   * @param options Options that customize the derivation
    * @returns A derived ReadonlyFuture
    */
-  map<U>(f: (value: T) => U): ReadonlyFuture<U>;
+  map<U>(
+    f: (value: T) => U,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyFuture<U, E>;
 
   /**
    * Creates a derived ReadonlyFuture that syncs with this Future, except
@@ -112,10 +157,64 @@ export interface Future<T> {
    * success. When it throws, the derivation becomes a failure.
    *
    * This is a shorthand of calling `derive` with only a `failure` function.
+   * As errors can then only be thrown by `f`, they are typed as `Error`.
    * @param f The failure transformation function
+   * @param options Options that customize the derivation
+   * @returns A derived ReadonlyFuture
+   */
+  rescue<U = T>(
+    f: (error: E) => U,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyFuture<U>;
+
+  /**
+   * Creates a derived ReadonlyFuture that syncs with the Future returned by the
+   * provided function `f`, which is invoked with each new success value of
+   * this Future. When `f` returns a promise instead, it is accepted into the
+   * derivation. Results made for earlier values are discarded. When `f`
+   * throws, the derivation becomes a failure.
+   *
+   * Otherwise, the derivation mirrors this Future.
+   * @param f The function producing a Future or a promise
+   * @param options Options that customize the derivation
    * @returns A derived ReadonlyFuture
    */
-  rescue<U = T>(f: (error: Error) => U): ReadonlyFuture<U>;
+  flatMap<U>(
+    f: (value: T) => ReadonlyFuture<U, E> | PromiseLike<U>,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyFuture<U, E>;
+
+  /**
+   * Waits for this Future to be settled, meaning that it is no longer pending.
+   * Waiting can be cut short with the `timeoutMs` and `signal` options.
+   * @param options Options that limit how long to wait
+   * @returns A promise of this Future
+   */
+  whenSettled(options?: Future.WaitOptions): Promise<this>;
+
+  /**
+   * Waits for this Future to be settled, like `whenSettled`, and then
+   * resolves with its success value, or rejects with its error.
+   * @param options Options that limit how long to wait
+   * @returns A promise of this Future's success value
+   */
+  toPromise(options?: Future.WaitOptions): Promise<T>;
+
+  /**
+   * Invokes the given listener whenever this Future transitions from one
+   * state to another, with both states and the data of the new state. States
+   * are typed as strings here, since a Loadable has states of its own.
+   * @param listener The function to invoke on each transition
+   * @returns A function that stops listening
+   */
+  onTransition(listener: _TransitionListener<T, string, E>): () => void;
+
+  /**
+   * Disposes every ReadonlyFuture derived from this Future, which in turn
+   * disposes their own derivations. A disposed derivation stops syncing and
+   * keeps its last state.
+   */
+  dispose(): void;
 }
 
 export namespace Future {
@@ -132,38 +231,103 @@ export namespace Future {
    * receives whatever error was just set. The `pending` callback does not
    * receive any values.
    */
-  export interface MatchOptions<T, A, B, C> {
+  export interface MatchOptions<T, A, B, C, E extends Error = Error> {
     success: (data: T) => A;
-    failure: (error: Error) => B;
+    failure: (error: E) => B;
     pending: () => C;
   }
 
+  /**
+   * Source is what can be accepted into a Future: either a promise, or a
+   * factory that receives an `AbortSignal` and produces a promise.
+   */
+  export type Source<T> =
+    | PromiseLike<T>
+    | ((signal: AbortSignal) => PromiseLike<T>);
+
+  /**
+   * AcceptOptions customizes how a promise is accepted. The `superseded`
+   * callback is invoked when the accepted promise settles after a newer
+   * promise has been accepted, receiving the state and data it would have
+   * settled with. The `mapError` function converts the rejection reason of
+   * the promise into the error type of the Future. When the promise does not
+   * settle within `timeoutMs` milliseconds, it is cancelled and the Future
+   * becomes a failure with a `TimeoutError`, which goes through `mapError`
+   * like a rejection reason.
+   */
+  export interface AcceptOptions<T, E extends Error = Error> {
+    superseded?: (state: State, data: T | E) => void;
+    mapError?: (reason: any) => E;
+    timeoutMs?: number;
+  }
+
+  /**
+   * Snapshot is a plain copy of the state of a Future and the data, if any,
+   * that comes with it.
+   */
+  export type Snapshot<T, E extends Error = Error> = _Snapshot<T, State, E>;
+
+  /**
+   * TransitionListener is invoked with the previous state, the new state and
+   * the data of the new state whenever a Future transitions.
+   */
+  export type TransitionListener<
+    T,
+    E extends Error = Error
+  > = _TransitionListener<T, State, E>;
+
+  /**
+   * WaitOptions limits how long to wait for a Future to be settled. Once
+   * `timeoutMs` milliseconds have passed, waiting fails with a `TimeoutError`.
+   * Once the `signal` is aborted, waiting fails with a `CancellationError`.
+   */
+  export interface WaitOptions {
+    timeoutMs?: number;
+    signal?: AbortSignal;
+  }
+
+  /**
+   * DerivationOptions customizes a derivation. The `name` is used by MobX for
+   * the derivation and its properties. The `equals` function decides whether
+   * a new success value is the same as the current one, in which case the
+   * current one is kept and observers are not notified; by default, values
+   * are compared by identity.
+   */
+  export interface DerivationOptions<T> {
+    name?: string;
+    equals?: (a: T, b: T) => boolean;
+  }
+
   /**
    * DeriveOptions is similar to MatchOptions, except only one callback is
    * required. The return value of any callback is accordingly re-wrapped in
-   * another Future.
+   * another Future. The options of the derivation itself can be given along
+   * with the callbacks.
    */
-  export type DeriveOptions<From, To> =
-    | DeriveOptions.AtLeastSuccess<From, To>
-    | DeriveOptions.AtLeastFailure<From, To>
-    | DeriveOptions.AtLeastPending<From, To>;
+  export type DeriveOptions<From, To, E extends Error = Error> =
+    | DeriveOptions.AtLeastSuccess<From, To, E>
+    | DeriveOptions.AtLeastFailure<From, To, E>
+    | DeriveOptions.AtLeastPending<From, To, E>;
 
   export namespace DeriveOptions {
-    export interface AtLeastSuccess<From, To> {
+    export interface AtLeastSuccess<From, To, E extends Error = Error>
+      extends DerivationOptions<To> {
       success: (data: From) => To;
-      failure?: (error: Error) => To;
+      failure?: (error: E) => To;
       pending?: () => To;
     }
 
-    export interface AtLeastFailure<From, To> {
+    export interface AtLeastFailure<From, To, E extends Error = Error>
+      extends DerivationOptions<To> {
       success?: (data: From) => To;
-      failure: (error: Error) => To;
+      failure: (error: E) => To;
       pending?: () => To;
     }
 
-    export interface AtLeastPending<From, To> {
+    export interface AtLeastPending<From, To, E extends Error = Error>
+      extends DerivationOptions<To> {
       success?: (data: From) => To;
-      failure?: (error: Error) => To;
+      failure?: (error: E) => To;
       pending: () => To;
     }
   }
@@ -172,7 +336,7 @@ export namespace Future {
 /**
  * ReadonlyFuture is a read-only subset of Future.
  */
-export interface ReadonlyFuture<T> {
+export interface ReadonlyFuture<T, E extends Error = Error> {
   /**
    * Indicates if this Future is a success.
    */
@@ -194,7 +358,7 @@ export interface ReadonlyFuture<T> {
    * @param options An object of callbacks to be invoked according to the state.
    * @returns The return value of whichever callback was selected.
    */
-  match<A, B, C>(options: Future.MatchOptions<T, A, B, C>): A | B | C;
+  match<A, B, C>(options: Future.MatchOptions<T, A, B, C, E>): A | B | C;
 
   /**
    * Returns this Future's success value if it is a success, or the provided
@@ -210,7 +374,7 @@ export interface ReadonlyFuture<T> {
    * @param defaultValue A possibly lazy value to use in case of non-failure
    * @returns this Future's failure error or the provided default value
    */
-  failureOr<U>(defaultValue: Lazy<U>): Error | U;
+  failureOr<U>(defaultValue: Lazy<U>): E | U;
 
   /**
    * Derives a ReadonlyFuture that syncs with this Future using the given
@@ -219,12 +383,17 @@ export interface ReadonlyFuture<T> {
    * error will turn it into a failure with that error value.
    *
    * The resulting derivation updates as the Future it is derived from updates
-   * and changes state.
+   * and changes state. Its errors keep the type `E`, unless a `failure`
+   * function is given, in which case every error goes through it, and the
+   * derivation's errors are typed as `Error`.
    * @param options An object of transform functions to be invoked according
    * to the state
    * @returns A derived ReadonlyFuture
    */
-  derive<U>(options: Future.DeriveOptions<T, U>): ReadonlyFuture<U>;
+  derive<U>(
+    options: Future.DeriveOptions.AtLeastFailure<T, U, E>,
+  ): ReadonlyFuture<U, Error>;
+  derive<U>(options: Future.DeriveOptions<T, U, E>): ReadonlyFuture<U, E>;
 
   /**
    * Creates a derived ReadonlyFuture that syncs with this Future, except
@@ -233,9 +402,13 @@ export interface ReadonlyFuture<T> {
    *
    * This is a shorthand of calling `derive` with only a `success` function.
    * @param f The success transformation function
+   * @param options Options that customize the derivation
    * @returns A derived ReadonlyFuture
    */
-  map<U>(f: (value: T) => U): ReadonlyFuture<U>;
+  map<U>(
+    f: (value: T) => U,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyFuture<U, E>;
 
   /**
    * Creates a derived ReadonlyFuture that syncs with this Future, except
@@ -244,10 +417,64 @@ export interface ReadonlyFuture<T> {
    * success. When it throws, the derivation becomes a failure.
    *
    * This is a shorthand of calling `derive` with only a `failure` function.
+   * As errors can then only be thrown by `f`, they are typed as `Error`.
    * @param f The failure transformation function
+   * @param options Options that customize the derivation
    * @returns A derived ReadonlyFuture
    */
-  rescue<U = T>(f: (error: Error) => U): ReadonlyFuture<U>;
+  rescue<U = T>(
+    f: (error: E) => U,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyFuture<U>;
+
+  /**
+   * Creates a derived ReadonlyFuture that syncs with the Future returned by the
+   * provided function `f`, which is invoked with each new success value of
+   * this Future. When `f` returns a promise instead, it is accepted into the
+   * derivation. Results made for earlier values are discarded. When `f`
+   * throws, the derivation becomes a failure.
+   *
+   * Otherwise, the derivation mirrors this Future.
+   * @param f The function producing a Future or a promise
+   * @param options Options that customize the derivation
+   * @returns A derived ReadonlyFuture
+   */
+  flatMap<U>(
+    f: (value: T) => ReadonlyFuture<U, E> | PromiseLike<U>,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyFuture<U, E>;
+
+  /**
+   * Waits for this Future to be settled, meaning that it is no longer pending.
+   * Waiting can be cut short with the `timeoutMs` and `signal` options.
+   * @param options Options that limit how long to wait
+   * @returns A promise of this Future
+   */
+  whenSettled(options?: Future.WaitOptions): Promise<this>;
+
+  /**
+   * Waits for this Future to be settled, like `whenSettled`, and then
+   * resolves with its success value, or rejects with its error.
+   * @param options Options that limit how long to wait
+   * @returns A promise of this Future's success value
+   */
+  toPromise(options?: Future.WaitOptions): Promise<T>;
+
+  /**
+   * Invokes the given listener whenever this Future transitions from one
+   * state to another, with both states and the data of the new state. States
+   * are typed as strings here, since a Loadable has states of its own.
+   * @param listener The function to invoke on each transition
+   * @returns A function that stops listening
+   */
+  onTransition(listener: _TransitionListener<T, string, E>): () => void;
+
+  /**
+   * Disposes every ReadonlyFuture derived from this Future, which in turn
+   * disposes their own derivations. A disposed derivation stops syncing and
+   * keeps its last state.
+   */
+  dispose(): void;
 }
 
 /**
@@ -0,0 +1,73 @@
+import {autorun, spy} from 'mobx';
+
+import {Failable} from './failable';
+import {Future} from './future';
+import {TransitionHistory} from './history';
+
+describe('TransitionHistory', () => {
+  const State = Future.State;
+  const failureValue = new Error();
+
+  it('records each transition with its time', () => {
+    const f = new Failable<number>();
+    const history = new TransitionHistory(f);
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    f.success(1);
+    now.mockRestore();
+
+    expect(history.entries).toEqual([
+      {from: State.pending, to: State.success, data: 1, at: 1000},
+    ]);
+  });
+
+  it('drops the oldest transitions once full', () => {
+    const f = new Failable<number>();
+    const history = new TransitionHistory(f, 2);
+    f.success(1);
+    f.failure(failureValue);
+    f.success(2);
+
+    expect(history.entries.map(entry => entry.to)).toEqual([
+      State.failure,
+      State.success,
+    ]);
+  });
+
+  it('names its actions after the instance', () => {
+    const f = new Failable<number>();
+    const history = new TransitionHistory(f);
+    const actions: string[] = [];
+    const stop = spy(event => {
+      if (event.type === 'action') {
+        actions.push(event.name);
+      }
+    });
+    history.clear();
+    stop();
+
+    expect(actions).toEqual([
+      expect.stringMatching(/^TransitionHistory@\d+\.clear$/),
+    ]);
+  });
+
+  it('is observable', () => {
+    const f = new Failable<number>();
+    const history = new TransitionHistory(f);
+    const lengths: number[] = [];
+    const stop = autorun(() => lengths.push(history.entries.length));
+    f.success(1);
+    history.clear();
+    stop();
+
+    expect(lengths).toEqual([0, 1, 0]);
+  });
+
+  it('stops recording once disposed', () => {
+    const f = new Failable<number>();
+    const history = new TransitionHistory(f);
+    history.dispose();
+    f.success(1);
+
+    expect(history.entries).toEqual([]);
+  });
+});
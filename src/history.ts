@@ -0,0 +1,66 @@
+import {computed, observable} from 'mobx';
+
+import {boundAction, TransitionListener} from './internal';
+
+interface Transitioning<T, State, E extends Error> {
+  onTransition(listener: TransitionListener<T, State, E>): () => void;
+}
+
+/**
+ * TransitionHistory keeps the most recent transitions of a Future, along with
+ * when each of them happened, in a ring buffer of the given `size`. Once it is
+ * full, the oldest transition is dropped to make room for the next one.
+ */
+export class TransitionHistory<T, State = string, E extends Error = Error> {
+  @observable.shallow
+  protected buffer: Array<TransitionHistory.Entry<T, State, E>> = [];
+  protected stop: () => void;
+
+  constructor(future: Transitioning<T, State, E>, readonly size: number = 50) {
+    this.stop = future.onTransition(this.record);
+  }
+
+  /**
+   * The transitions kept so far, from the oldest to the newest.
+   */
+  @computed
+  get entries(): ReadonlyArray<TransitionHistory.Entry<T, State, E>> {
+    return this.buffer.slice();
+  }
+
+  /**
+   * Forgets every transition kept so far.
+   */
+  @boundAction
+  clear(): void {
+    this.buffer.splice(0);
+  }
+
+  /**
+   * Stops recording transitions, keeping those recorded so far.
+   */
+  dispose(): void {
+    this.stop();
+  }
+
+  @boundAction
+  protected record(from: State, to: State, data: T | E | undefined): void {
+    this.buffer.push({from, to, data, at: Date.now()});
+    if (this.buffer.length > this.size) {
+      this.buffer.splice(0, this.buffer.length - this.size);
+    }
+  }
+}
+
+export namespace TransitionHistory {
+  /**
+   * Entry is a transition from one state to another, with the data of the new
+   * state and the time it happened at, in milliseconds since the epoch.
+   */
+  export interface Entry<T, State = string, E extends Error = Error> {
+    from: State;
+    to: State;
+    data: T | E | undefined;
+    at: number;
+  }
+}
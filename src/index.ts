@@ -1,4 +1,17 @@
+export {configure, Configuration, FailureHandler} from './config';
 export {Future} from './future';
 export {Lazy} from './lazy';
 export {Failable} from './failable';
 export {Loadable} from './loadable';
+export {LoadableCache} from './loadable/cache';
+export {PagedLoadable} from './loadable/paged';
+export {Mutation} from './mutation';
+export {TransitionHistory} from './history';
+export {DecoratorOptions, failable, loadable} from './decorators';
+export {AggregateError, CancellationError, TimeoutError} from './errors';
+export {
+  ErrorReviver,
+  registerErrorReviver,
+  Serialized,
+  SerializedError,
+} from './json';
@@ -3,23 +3,89 @@
  * change anytime.
  */
 
+import {_getAdministration, action, getDebugName} from 'mobx';
+
 import {Future, ReadonlyFuture} from '../future';
 
 export type ExposedFuture<
   T,
-  F extends ReadonlyFuture<T>,
-  State = Future.State
+  F extends ReadonlyFuture<T, E>,
+  State = Future.State,
+  E extends Error = Error
 > = F & {
-  data: T | Error | undefined;
+  data: T | E | undefined;
   state: State;
 };
 
+/**
+ * A plain snapshot of a Future's internal state and data.
+ */
+export interface Snapshot<T, State = Future.State, E extends Error = Error> {
+  state: State;
+  data: T | E | undefined;
+}
+
+/**
+ * A function invoked whenever a Future transitions from one state to another,
+ * with the data that comes with the new state.
+ */
+export type TransitionListener<
+  T,
+  State = Future.State,
+  E extends Error = Error
+> = (from: State, to: State, data: T | E | undefined) => void;
+
 /**
  * Takes a Future and recasts it so the internal protected fields are
  * accessible.
  */
-export function expose<T, F extends ReadonlyFuture<T>, State = Future.State>(
-  future: F,
-): ExposedFuture<T, F, State> {
-  return future as ExposedFuture<T, F, State>;
+export function expose<
+  T,
+  F extends ReadonlyFuture<T, E>,
+  State = Future.State,
+  E extends Error = Error
+>(future: F): ExposedFuture<T, F, State, E> {
+  return future as ExposedFuture<T, F, State, E>;
+}
+
+/**
+ * Renames an observable instance, along with its observable and computed
+ * properties, so that MobX spy events and devtools show the given name.
+ *
+ * This relies on the internals of MobX ^4.3: the `name` and `values` of the
+ * administration returned by `_getAdministration`. The tests of the `name`
+ * option pin this behavior across MobX upgrades.
+ */
+export function rename(instance: object, name: string): void {
+  const administration = _getAdministration(instance);
+  administration.name = name;
+  for (const key of Object.keys(administration.values)) {
+    administration.values[key].name = `${name}.${key}`;
+  }
+}
+
+/**
+ * A decorator like `action.bound`, except the action is named after the
+ * instance it is bound to, as told by `getDebugName`, followed by the name of
+ * the method, such as `userProfile.success`.
+ */
+export function boundAction(
+  _target: object,
+  key: string,
+  descriptor: PropertyDescriptor,
+): PropertyDescriptor {
+  const method = descriptor.value;
+  return {
+    configurable: true,
+    enumerable: false,
+    get(this: object) {
+      const bound = action(`${getDebugName(this)}.${key}`, method.bind(this));
+      Object.defineProperty(this, key, {
+        value: bound,
+        configurable: true,
+        writable: true,
+      });
+      return bound;
+    },
+  };
 }
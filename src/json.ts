@@ -0,0 +1,129 @@
+import {Enum} from 'typescript-string-enums';
+
+import {AggregateError, CancellationError, TimeoutError} from './errors';
+import {Snapshot} from './internal';
+
+/**
+ * SerializedError is the JSON form of an error: its name, message and stack,
+ * along with any of its own properties.
+ */
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  [property: string]: any;
+}
+
+/**
+ * Serialized is the JSON form of a Future: its state, and its data, if any.
+ * Errors are serialized as a `SerializedError`.
+ */
+export interface Serialized<T, State = string> {
+  state: State;
+  data?: T | SerializedError;
+}
+
+/**
+ * An ErrorReviver recreates an error from its JSON form.
+ */
+export type ErrorReviver = (serialized: SerializedError) => Error;
+
+/**
+ * Maps error names to the revivers of their error classes. Errors without one
+ * are revived as plain errors.
+ */
+const revivers = new Map<string, ErrorReviver>();
+
+/**
+ * Registers a reviver for errors of the given name, so that rehydrated
+ * Futures fail with an instance of the right error class.
+ * @param name The `name` of the errors to revive
+ * @param reviver A function recreating an error from its JSON form
+ */
+export function registerErrorReviver(name: string, reviver: ErrorReviver) {
+  revivers.set(name, reviver);
+}
+
+function serialize(value: any): any {
+  if (value instanceof Error) {
+    return serializeError(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(serialize);
+  }
+  return value;
+}
+
+function serializeError(error: Error): SerializedError {
+  const serialized: SerializedError = {
+    name: error.name,
+    message: error.message,
+  };
+  if (error.stack !== undefined) {
+    serialized.stack = error.stack;
+  }
+  for (const key of Object.keys(error)) {
+    serialized[key] = serialize((error as any)[key]);
+  }
+  return serialized;
+}
+
+function reviveError(serialized: SerializedError): Error {
+  const {name, message, stack, ...properties} = serialized;
+  const reviver = revivers.get(name);
+  const error = reviver
+    ? reviver(serialized)
+    : Object.assign(new Error(message), properties, {name});
+  if (stack !== undefined) {
+    error.stack = stack;
+  }
+  return error;
+}
+
+/**
+ * Serializes the given snapshot of a Future, telling by `failed` whether its
+ * data is an error.
+ */
+export function serializeSnapshot<T, State, E extends Error>(
+  {state, data}: Snapshot<T, State, E>,
+  failed: boolean,
+): Serialized<T, State> {
+  if (data === undefined) {
+    return {state};
+  }
+  return {state, data: failed ? serializeError(data as E) : (data as T)};
+}
+
+/**
+ * Revives a snapshot of a Future from its JSON form, telling by `failed`
+ * whether its data is an error.
+ * @throws {TypeError} When the state is not one of the given states
+ */
+export function reviveSnapshot<T, State, E extends Error>(
+  states: {[key: string]: State},
+  {state, data}: Serialized<T, State>,
+  failed: (state: State) => boolean,
+): Snapshot<T, State, E> {
+  if (!Enum.isType(states, state)) {
+    throw new TypeError(`Invalid state: ${state}`);
+  }
+  if (data === undefined) {
+    return {state, data};
+  }
+  return {
+    state,
+    data: failed(state)
+      ? (reviveError(data as SerializedError) as E)
+      : (data as T),
+  };
+}
+
+registerErrorReviver('AggregateError', ({errors}) => {
+  return new AggregateError(errors.map(reviveError));
+});
+registerErrorReviver('CancellationError', ({message}) => {
+  return new CancellationError(message);
+});
+registerErrorReviver('TimeoutError', ({timeoutMs}) => {
+  return new TimeoutError(timeoutMs);
+});
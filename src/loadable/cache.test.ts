@@ -0,0 +1,179 @@
+import {autorun} from 'mobx';
+
+import {expose} from '../internal';
+import {LoadableCache} from './cache';
+import {State} from './state';
+
+describe('LoadableCache', () => {
+  const never = new Promise<never>((_resolve, _reject) => {
+    /* */
+  });
+
+  function fetching<T>(value: (key: any) => T) {
+    return jest.fn((key: any) => Promise.resolve(value(key)));
+  }
+
+  describe('get', () => {
+    it('loads the Loadable of a new key', () => {
+      const fetch = fetching(key => `user ${key}`);
+      const cache = new LoadableCache<number, string>(fetch);
+      const l = cache.get(1);
+
+      expect(fetch).toBeCalledWith(1, expect.any(AbortSignal));
+      return l.toPromise().then(value => expect(value).toBe('user 1'));
+    });
+
+    it('shares the Loadable of equal keys', () => {
+      const fetch = fetching(() => 'user');
+      const cache = new LoadableCache<{id: number}, string>(fetch);
+
+      expect(cache.get({id: 1})).toBe(cache.get({id: 1}));
+      expect(cache.get({id: 1})).not.toBe(cache.get({id: 2}));
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('reuses a request in flight', () => {
+      const fetch = jest.fn(() => never);
+      const cache = new LoadableCache<string, string>(fetch);
+      cache.get('a');
+      cache.get('a');
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('tells keys apart with the hash option', () => {
+      const fetch = fetching(() => 'user');
+      const cache = new LoadableCache<{id: number; name: string}, string>(
+        fetch,
+        {hash: key => String(key.id)},
+      );
+
+      expect(cache.get({id: 1, name: 'a'})).toBe(cache.get({id: 1, name: 'b'}));
+    });
+
+    it('passes the remaining options along to accept', () => {
+      const cache = new LoadableCache<string, string>(() => never, {
+        timeoutMs: 0,
+      });
+
+      return cache
+        .get('a')
+        .whenSettled()
+        .then(l => expect(l.isFailure).toBe(true));
+    });
+  });
+
+  describe('invalidate', () => {
+    it('reloads the Loadable of the given key, keeping its data', () => {
+      let version = 0;
+      const cache = new LoadableCache<string, number>(() =>
+        Promise.resolve(++version),
+      );
+      const l = expose(cache.get('a'));
+      const stop = autorun(() => l.isSuccess);
+
+      return l
+        .toPromise()
+        .then(() => {
+          cache.invalidate('a');
+          expect(l.state).toEqual(State.reloading);
+          expect(l.data).toBe(1);
+
+          return l.toPromise();
+        })
+        .then(value => {
+          expect(value).toBe(2);
+          stop();
+        });
+    });
+
+    it('supersedes a request in flight', () => {
+      const signals: AbortSignal[] = [];
+      const cache = new LoadableCache<string, string>((_key, signal) => {
+        signals.push(signal);
+        return never;
+      });
+      cache.get('a');
+      cache.invalidate('a');
+
+      expect(signals.map(signal => signal.aborted)).toEqual([true, false]);
+    });
+
+    it('ignores keys that are not cached', () => {
+      const fetch = fetching(() => 'user');
+      const cache = new LoadableCache<string, string>(fetch);
+      cache.invalidate('a');
+
+      expect(fetch).not.toBeCalled();
+      expect(cache.has('a')).toBe(false);
+    });
+  });
+
+  describe('invalidatePrefix', () => {
+    it('reloads the Loadables of array keys starting with the prefix', () => {
+      const fetch = jest.fn(() => never);
+      const cache = new LoadableCache<any[], string>(fetch);
+      cache.get(['users', 1]);
+      cache.get(['users', 2]);
+      cache.get(['listings', 1]);
+      cache.get(['users']);
+      fetch.mockClear();
+      cache.invalidatePrefix(['users']);
+
+      expect(fetch.mock.calls.map(([key]) => key)).toEqual([
+        ['users', 1],
+        ['users', 2],
+        ['users'],
+      ]);
+    });
+  });
+
+  describe('invalidateAll', () => {
+    it('reloads every Loadable', () => {
+      const fetch = jest.fn(() => never);
+      const cache = new LoadableCache<string, string>(fetch);
+      cache.get('a');
+      cache.get('b');
+      fetch.mockClear();
+      cache.invalidateAll();
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('eviction', () => {
+    it('evicts a Loadable once it is no longer observed', () => {
+      const cache = new LoadableCache<string, string>(() => never);
+      const l = cache.get('a');
+      const stop = autorun(() => l.isSuccess);
+
+      expect(cache.has('a')).toBe(true);
+      stop();
+      expect(cache.has('a')).toBe(false);
+      expect(cache.get('a')).not.toBe(l);
+    });
+
+    it('aborts the request in flight of an evicted Loadable', () => {
+      let signal: AbortSignal | undefined;
+      const cache = new LoadableCache<string, string>((_key, s) => {
+        signal = s;
+        return never;
+      });
+      const stop = autorun(() => cache.get('a').isLoading);
+      stop();
+
+      expect(signal!.aborted).toBe(true);
+      expect(cache.size).toBe(0);
+    });
+
+    it('leaves an evicted Loadable idle', () => {
+      const cache = new LoadableCache<string, string>(() => never);
+      const l = cache.get('a');
+      const stop = autorun(() => l.isLoading);
+      stop();
+
+      expect(l.isLoading).toBe(false);
+      expect(expose(l).state).toBe(State.empty);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import {onBecomeUnobserved} from 'mobx';
+
+import {Loadable} from '.';
+import {Future} from '../future';
+
+interface Entry<K, T, E extends Error> {
+  key: K;
+  loadable: Loadable<T, E>;
+}
+
+/**
+ * LoadableCache shares one Loadable per key, so that every store asking for
+ * the same resource sees the same data and makes the same request. Keys can be
+ * anything serializable; they are told apart by their `hash`, which is their
+ * JSON by default.
+ *
+ * A Loadable is loaded with the `fetch` function the first time its key is
+ * asked for, and only reloaded once it is invalidated. While reloading, it
+ * keeps its previous data. Once nothing observes it anymore, it is evicted.
+ */
+export class LoadableCache<K, T, E extends Error = Error> {
+  protected entries = new Map<string, Entry<K, T, E>>();
+
+  constructor(
+    protected fetch: (key: K, signal: AbortSignal) => PromiseLike<T>,
+    protected options: LoadableCache.Options<K, T, E> = {},
+  ) {}
+
+  /**
+   * The number of cached Loadables.
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Returns the Loadable shared by the given key, loading it if it is not yet
+   * cached. A request in flight for the same key is reused.
+   * @param key The key of the resource
+   * @returns The shared Loadable
+   */
+  get(key: K): Loadable<T, E> {
+    const hash = this.hash(key);
+    const entry = this.entries.get(hash);
+    if (entry) {
+      return entry.loadable;
+    }
+
+    const loadable = new Loadable<T, E>();
+    this.entries.set(hash, {key, loadable});
+    onBecomeUnobserved(loadable, 'state', () => this.evict(hash, loadable));
+    return this.load(key, loadable);
+  }
+
+  /**
+   * Indicates if a Loadable is cached for the given key.
+   */
+  has(key: K): boolean {
+    return this.entries.has(this.hash(key));
+  }
+
+  /**
+   * Reloads the Loadable cached for the given key, if any, superseding a
+   * request that may be in flight.
+   * @param key The key of the resource
+   */
+  invalidate(key: K): void {
+    const entry = this.entries.get(this.hash(key));
+    if (entry) {
+      this.load(entry.key, entry.loadable);
+    }
+  }
+
+  /**
+   * Reloads every Loadable cached for an array key that starts with the
+   * elements of the given prefix.
+   * @param prefix The first elements of the keys to invalidate
+   */
+  invalidatePrefix(prefix: any[]): void {
+    const hashes = prefix.map(element => JSON.stringify(element));
+    this.invalidateWhere(
+      key =>
+        Array.isArray(key) &&
+        key.length >= hashes.length &&
+        hashes.every((hash, i) => JSON.stringify(key[i]) === hash),
+    );
+  }
+
+  /**
+   * Reloads every cached Loadable.
+   */
+  invalidateAll(): void {
+    this.invalidateWhere(() => true);
+  }
+
+  protected invalidateWhere(predicate: (key: K) => boolean): void {
+    this.entries.forEach(({key, loadable}) => {
+      if (predicate(key)) {
+        this.load(key, loadable);
+      }
+    });
+  }
+
+  protected load(key: K, loadable: Loadable<T, E>): Loadable<T, E> {
+    const {hash: _, ...options} = this.options;
+    return loadable.accept(signal => this.fetch(key, signal), options);
+  }
+
+  protected evict(hash: string, loadable: Loadable<T, E>): void {
+    const entry = this.entries.get(hash);
+    if (entry && entry.loadable === loadable) {
+      this.entries.delete(hash);
+      loadable.cancel();
+      loadable.dispose();
+    }
+  }
+
+  protected hash(key: K): string {
+    return this.options.hash ? this.options.hash(key) : JSON.stringify(key);
+  }
+}
+
+export namespace LoadableCache {
+  /**
+   * Options customizes a LoadableCache. The `hash` function tells keys apart,
+   * and defaults to `JSON.stringify`. The remaining options are passed along
+   * to `accept` whenever a Loadable is loaded.
+   */
+  export interface Options<K, T, E extends Error = Error>
+    extends Future.AcceptOptions<T, E> {
+    hash?: (key: K) => string;
+  }
+}
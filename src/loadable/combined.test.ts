@@ -0,0 +1,46 @@
+import {getDebugName} from 'mobx';
+
+import {Loadable} from '.';
+import {Future} from '../future';
+import {expose} from '../internal';
+import {CombinedLoadable} from './combined';
+import {State} from './state';
+
+describe('CombinedLoadable', () => {
+  function combine<T>(
+    l: Loadable<T>,
+    options?: Future.DerivationOptions<{value: T}>,
+  ) {
+    return expose(
+      new CombinedLoadable(
+        [l],
+        () => ({
+          state: l.isSuccess ? State.success : State.pending,
+          data: l.isSuccess ? {value: l.successOr(undefined)!} : undefined,
+        }),
+        undefined,
+        options,
+      ),
+    );
+  }
+
+  describe('options', () => {
+    it('names the combination after the name option', () => {
+      const c = combine(new Loadable<number>(), {name: 'combined'});
+
+      expect(getDebugName(c, 'state')).toBe('combined.state');
+    });
+
+    it('keeps the current value when the equals option says so', () => {
+      const l = new Loadable<number>().success(1);
+      const c = combine(l, {equals: (a, b) => a.value % 2 === b.value % 2});
+      const value = c.data;
+      l.success(3);
+
+      expect(c.data).toBe(value);
+
+      l.success(2);
+      expect(c.data).toEqual({value: 2});
+    });
+  });
+});
@@ -0,0 +1,279 @@
+import {
+  action,
+  autorun,
+  comparer,
+  computed,
+  getDebugName,
+  IReactionDisposer,
+  observable,
+} from 'mobx';
+
+import {Loadable, ReadonlyLoadable} from '.';
+import {markHandled, reportFailure} from '../config';
+import {
+  adopt,
+  dispose,
+  failureOr,
+  onTransition,
+  release,
+  successOr,
+  toPromise,
+  whenSettled,
+} from '../extensions';
+import {Future} from '../future';
+import {rename, Snapshot} from '../internal';
+import {Lazy} from '../lazy';
+import {derive, flatMap, map, rescue} from './extensions';
+import {match} from './match';
+import {State} from './state';
+import {Availability, availabilityOf, Flight, flightOf} from './traits';
+
+/**
+ * CombinedLoadable syncs with several Loadables at once. Whenever any of them
+ * changes, the `combine` function is invoked to compute the new state and data
+ * of this combination. The `cleanup` function, if any, is invoked once this
+ * combination is disposed. See `Future.DerivationOptions` for the options.
+ */
+export class CombinedLoadable<T, E extends Error = Error>
+  implements ReadonlyLoadable<T, E> {
+  @observable protected data: T | E | undefined = undefined;
+  @observable protected state: State = State.pending;
+  protected transformation: IReactionDisposer;
+  protected equals: (a: T, b: T) => boolean;
+
+  constructor(
+    protected inputs: Array<ReadonlyLoadable<any>>,
+    protected combine: () => Snapshot<T, State, E>,
+    protected cleanup?: () => void,
+    options: Future.DerivationOptions<T> = {},
+  ) {
+    const {name, equals = comparer.identity} = options;
+    if (name !== undefined) {
+      rename(this, name);
+    }
+    this.equals = equals;
+    this.transformation = autorun(() => this.transform(), {
+      name: `${getDebugName(this)}.combination`,
+    });
+    for (const input of inputs) {
+      adopt(input, this);
+    }
+  }
+
+  protected transform() {
+    const {state, data} = this.combine();
+    this.transitionTo(state, data);
+  }
+
+  @action
+  protected transitionTo(state: State, data: T | E | undefined): void {
+    const failed = availabilityOf(state) === Availability.error;
+    const changed =
+      availabilityOf(this.state) !== Availability.error || data !== this.data;
+    const kept =
+      availabilityOf(state) === Availability.value &&
+      availabilityOf(this.state) === Availability.value &&
+      this.equals(this.data as T, data as T);
+    this.state = state;
+    if (!kept) {
+      this.data = data;
+    }
+    if (failed && changed) {
+      reportFailure(this, data as E);
+    }
+  }
+
+  /**
+   * Indicates if this Loadable is a success.
+   */
+  @computed
+  get isSuccess(): boolean {
+    return availabilityOf(this.state) === Availability.value;
+  }
+
+  /**
+   * Indicates if this Loadable is a failure.
+   */
+  @computed
+  get isFailure(): boolean {
+    return availabilityOf(this.state) === Availability.error;
+  }
+
+  /**
+   * Indicates if this Loadable is pending.
+   */
+  @computed
+  get isPending(): boolean {
+    return availabilityOf(this.state) === Availability.none;
+  }
+
+  /**
+   * Indicates if this Loadable is the process of loading, which happens in one
+   * of the following three states: reloading, retrying, and pending.
+   */
+  @computed
+  get isLoading(): boolean {
+    return flightOf(this.state) === Flight.busy;
+  }
+
+  /**
+   * Invokes one of the provided callbacks that corresponds this Loadable's
+   * current state.
+   * @param options An object of callbacks to be invoked according to the state.
+   * @returns The return value of whichever callback was selected.
+   */
+  match<A, B, C>(options: Loadable.MatchOptions<T, A, B, C, E>): A | B | C {
+    markHandled(this);
+    return match(this.state, this.data, this.isLoading, options);
+  }
+
+  /**
+   * Returns this Loadable's success value if it is a success or a reloading,
+   * or the provided default value if it is not.
+   * @param defaultValue A possibly lazy value to use in case of non-value
+   * @returns This Loadable's value or the provided default value
+   */
+  successOr<U>(defaultValue: Lazy<U>): T | U {
+    return successOr(this, defaultValue);
+  }
+
+  /**
+   * Returns this Loadable's error value if it is a failure or a retrying, or
+   * the provided default value if it is not.
+   * @param defaultValue A possibly lazy value to use in case of non-error
+   * @returns this Loadable's error or the provided default error
+   */
+  failureOr<U>(defaultValue: Lazy<U>): E | U {
+    return failureOr(this, defaultValue);
+  }
+
+  /**
+   * Derives a ReadonlyLoadable that syncs with this Loadable using the given
+   * options. For each transform function in the options, returning a value will
+   * turn the derivation into a success or a reloading with that value, whereas
+   * throwing an error will turn it into a failure or a retrying with that error
+   * value.
+   *
+   * The resulting derivation updates as the Loadable it is derived from
+   * updates and changes state.
+   * @param options An object of transform functions to be invoked according
+   * to the state
+   * @returns A derived ReadonlyLoadable
+   */
+  derive<U>(
+    options: Loadable.DeriveOptions.AtLeastFailure<T, U, E>,
+  ): ReadonlyLoadable<U, Error>;
+  derive<U>(options: Loadable.DeriveOptions<T, U, E>): ReadonlyLoadable<U, E>;
+  derive<U>(
+    options: Loadable.DeriveOptions<T, U, E>,
+  ): ReadonlyLoadable<U, Error> {
+    return derive<T, U, E, Error>(this, options);
+  }
+
+  /**
+   * Creates a derived ReadonlyLoadable that syncs with this Loadable, except
+   * success values are first transformed using the provided function `f`. When
+   * the provided function throws, the derived ReadonlyLoadable becomes a
+   * failure or a retrying.
+   *
+   * This is a shorthand of calling `derive` with only a `success` function.
+   * @param f The success transformation function
+   * @param options Options that customize the derivation
+   * @returns A derived ReadonlyFuture
+   */
+  map<U>(
+    f: (value: T) => U,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyLoadable<U, E> {
+    return map(this, f, options);
+  }
+
+  /**
+   * Creates a derived ReadonlyLoadable that syncs with this Loadable, except
+   * error values are first transformed using the provided function `f`. When
+   * the provided function returns, the derived ReadonlyLoadable becomes a
+   * success or a reloading. When it throws, the derivation becomes a failure
+   * or retrying.
+   *
+   * This is a shorthand of calling `derive` with only a `failure` function.
+   * @param f The failure transformation function
+   * @param options Options that customize the derivation
+   * @returns A derived ReadonlyFuture
+   */
+  rescue<U = T>(
+    f: (error: E) => U,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyLoadable<U> {
+    return rescue<T, U, E>(this, f, options);
+  }
+
+  /**
+   * Creates a derived ReadonlyLoadable that syncs with the Loadable returned by
+   * the provided function `f`, which is invoked with each new success value of
+   * this Loadable. When `f` returns a promise instead, it is accepted into the
+   * derivation. Results made for earlier values are discarded. When `f` throws,
+   * the derivation becomes a failure. The derivation is loading whenever either
+   * this Loadable or the one returned by `f` is.
+   *
+   * Otherwise, the derivation mirrors this Loadable.
+   * @param f The function producing a Loadable or a promise
+   * @param options Options that customize the derivation
+   * @returns A derived ReadonlyLoadable
+   */
+  flatMap<U>(
+    f: (value: T) => ReadonlyLoadable<U, E> | PromiseLike<U>,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyLoadable<U, E> {
+    return flatMap(this, f, options);
+  }
+
+  /**
+   * Waits for this Loadable to be settled, meaning that it has a value or an
+   * error and is no longer loading. Waiting can be cut short with the
+   * `timeoutMs` and `signal` options.
+   * @param options Options that limit how long to wait
+   * @returns A promise of this Loadable
+   */
+  whenSettled(options?: Future.WaitOptions): Promise<this> {
+    return whenSettled(this, () => !this.isPending && !this.isLoading, options);
+  }
+
+  /**
+   * Waits for this Loadable to be settled, like `whenSettled`, and then
+   * resolves with its success value, or rejects with its error.
+   * @param options Options that limit how long to wait
+   * @returns A promise of this Loadable's success value
+   */
+  toPromise(options?: Future.WaitOptions): Promise<T> {
+    return toPromise(this, () => !this.isPending && !this.isLoading, options);
+  }
+
+  /**
+   * Invokes the given listener whenever this Loadable transitions from one
+   * state to another, with both states and the data of the new state.
+   * @param listener The function to invoke on each transition
+   * @returns A function that stops listening
+   */
+  onTransition(listener: Loadable.TransitionListener<T, E>): () => void {
+    return onTransition<T, State, E>(
+      () => ({state: this.state, data: this.data}),
+      listener,
+    );
+  }
+
+  /**
+   * Stops this Loadable from syncing with the Loadables it combines, and
+   * disposes every ReadonlyLoadable derived from this one. This Loadable
+   * keeps its last state.
+   */
+  dispose(): void {
+    this.transformation();
+    for (const input of this.inputs) {
+      release(input, this);
+    }
+    if (this.cleanup) {
+      this.cleanup();
+    }
+    dispose(this);
+  }
+}
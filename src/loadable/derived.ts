@@ -1,10 +1,29 @@
-import {action, autorun, computed, IReactionDisposer, observable} from 'mobx';
+import {
+  action,
+  autorun,
+  comparer,
+  computed,
+  getDebugName,
+  IReactionDisposer,
+  observable,
+} from 'mobx';
 
 import {Loadable, ReadonlyLoadable} from '.';
-import {failureOr, successOr} from '../extensions';
-import {expose} from '../internal';
+import {markHandled, reportFailure} from '../config';
+import {
+  adopt,
+  dispose,
+  failureOr,
+  onTransition,
+  release,
+  successOr,
+  toPromise,
+  whenSettled,
+} from '../extensions';
+import {Future} from '../future';
+import {expose, rename} from '../internal';
 import {Lazy} from '../lazy';
-import {derive, map, rescue} from './extensions';
+import {derive, flatMap, map, rescue} from './extensions';
 import {match} from './match';
 import {State} from './state';
 import {
@@ -15,25 +34,47 @@ import {
   withAvailability,
 } from './traits';
 
-export class DerivedLoadable<T, To> implements ReadonlyLoadable<To> {
-  @observable protected underlying: ReadonlyLoadable<T>;
-  @observable protected data: To | Error | undefined = undefined;
+/**
+ * DerivedLoadable syncs with the Loadable it is derived from, transforming its
+ * state and data with the callbacks of the given options. See
+ * `Future.DerivationOptions` for the other options.
+ */
+export class DerivedLoadable<
+  T,
+  To,
+  E extends Error = Error,
+  F extends Error = E
+> implements ReadonlyLoadable<To, F> {
+  @observable protected underlying: ReadonlyLoadable<T, E>;
+  @observable protected data: To | F | undefined = undefined;
   @observable protected state: State = State.pending;
   protected transformation: IReactionDisposer;
+  protected equals: (a: To, b: To) => boolean;
 
   constructor(
-    underlying: ReadonlyLoadable<T>,
-    protected options: Loadable.DeriveOptions<T, To>,
+    underlying: ReadonlyLoadable<T, E>,
+    protected options: Loadable.DeriveOptions<T, To, E>,
   ) {
+    const {name, equals = comparer.identity} = options;
+    if (name !== undefined) {
+      rename(this, name);
+    }
+    this.equals = equals;
     this.underlying = underlying;
-    this.transformation = autorun(() => this.transform(), {name: 'transformation'});
-    this.transform();
+    this.transformation = autorun(() => this.transform(), {
+      name: `${getDebugName(this)}.transformation`,
+    });
+    adopt(underlying, this);
   }
 
   protected transform() {
     const {success, failure, pending} = this.options;
 
-    const underlying = expose<T, ReadonlyLoadable<T>, State>(this.underlying);
+    // Reading the Loadable derived from handles its failure, like `match`.
+    markHandled(this.underlying);
+    const underlying = expose<T, ReadonlyLoadable<T, E>, State>(
+      this.underlying,
+    );
     const {state, data} = underlying;
 
     switch (availabilityOf(state)) {
@@ -94,9 +135,21 @@ export class DerivedLoadable<T, To> implements ReadonlyLoadable<To> {
   }
 
   @action
-  protected transitionTo(state: State, data: To | Error | undefined): void {
+  protected transitionTo(state: State, data: To | F | undefined): void {
+    const failed = availabilityOf(state) === Availability.error;
+    const changed =
+      availabilityOf(this.state) !== Availability.error || data !== this.data;
+    const kept =
+      availabilityOf(state) === Availability.value &&
+      availabilityOf(this.state) === Availability.value &&
+      this.equals(this.data as To, data as To);
     this.state = state;
-    this.data = data;
+    if (!kept) {
+      this.data = data;
+    }
+    if (failed && changed) {
+      reportFailure(this, data as F);
+    }
   }
 
   /**
@@ -138,7 +191,8 @@ export class DerivedLoadable<T, To> implements ReadonlyLoadable<To> {
    * @param options An object of callbacks to be invoked according to the state.
    * @returns The return value of whichever callback was selected.
    */
-  match<A, B, C>(options: Loadable.MatchOptions<To, A, B, C>): A | B | C {
+  match<A, B, C>(options: Loadable.MatchOptions<To, A, B, C, F>): A | B | C {
+    markHandled(this);
     return match(this.state, this.data, this.isLoading, options);
   }
 
@@ -158,7 +212,7 @@ export class DerivedLoadable<T, To> implements ReadonlyLoadable<To> {
    * @param defaultValue A possibly lazy value to use in case of non-error
    * @returns this Loadable's error or the provided default error
    */
-  failureOr<U>(defaultValue: Lazy<U>): Error | U {
+  failureOr<U>(defaultValue: Lazy<U>): F | U {
     return failureOr(this, defaultValue);
   }
 
@@ -175,8 +229,14 @@ export class DerivedLoadable<T, To> implements ReadonlyLoadable<To> {
    * to the state
    * @returns A derived ReadonlyLoadable
    */
-  derive<U>(options: Loadable.DeriveOptions<To, U>): ReadonlyLoadable<U> {
-    return derive(this, options);
+  derive<U>(
+    options: Loadable.DeriveOptions.AtLeastFailure<To, U, F>,
+  ): ReadonlyLoadable<U, Error>;
+  derive<U>(options: Loadable.DeriveOptions<To, U, F>): ReadonlyLoadable<U, F>;
+  derive<U>(
+    options: Loadable.DeriveOptions<To, U, F>,
+  ): ReadonlyLoadable<U, Error> {
+    return derive<To, U, F, Error>(this, options);
   }
 
   /**
@@ -187,10 +247,14 @@ export class DerivedLoadable<T, To> implements ReadonlyLoadable<To> {
    *
    * This is a shorthand of calling `derive` with only a `success` function.
    * @param f The success transformation function
+   * @param options Options that customize the derivation
    * @returns A derived ReadonlyFuture
    */
-  map<U>(f: (value: To) => U): ReadonlyLoadable<U> {
-    return map(this, f);
+  map<U>(
+    f: (value: To) => U,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyLoadable<U, F> {
+    return map(this, f, options);
   }
 
   /**
@@ -202,9 +266,78 @@ export class DerivedLoadable<T, To> implements ReadonlyLoadable<To> {
    *
    * This is a shorthand of calling `derive` with only a `failure` function.
    * @param f The failure transformation function
+   * @param options Options that customize the derivation
    * @returns A derived ReadonlyFuture
    */
-  rescue<U = To>(f: (error: Error) => U): ReadonlyLoadable<U> {
-    return rescue(this, f);
+  rescue<U = To>(
+    f: (error: F) => U,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyLoadable<U> {
+    return rescue<To, U, F>(this, f, options);
+  }
+
+  /**
+   * Creates a derived ReadonlyLoadable that syncs with the Loadable returned by
+   * the provided function `f`, which is invoked with each new success value of
+   * this Loadable. When `f` returns a promise instead, it is accepted into the
+   * derivation. Results made for earlier values are discarded. When `f` throws,
+   * the derivation becomes a failure. The derivation is loading whenever either
+   * this Loadable or the one returned by `f` is.
+   *
+   * Otherwise, the derivation mirrors this Loadable.
+   * @param f The function producing a Loadable or a promise
+   * @param options Options that customize the derivation
+   * @returns A derived ReadonlyLoadable
+   */
+  flatMap<U>(
+    f: (value: To) => ReadonlyLoadable<U, F> | PromiseLike<U>,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyLoadable<U, F> {
+    return flatMap(this, f, options);
+  }
+
+  /**
+   * Waits for this Loadable to be settled, meaning that it has a value or an
+   * error and is no longer loading. Waiting can be cut short with the
+   * `timeoutMs` and `signal` options.
+   * @param options Options that limit how long to wait
+   * @returns A promise of this Loadable
+   */
+  whenSettled(options?: Future.WaitOptions): Promise<this> {
+    return whenSettled(this, () => !this.isPending && !this.isLoading, options);
+  }
+
+  /**
+   * Waits for this Loadable to be settled, like `whenSettled`, and then
+   * resolves with its success value, or rejects with its error.
+   * @param options Options that limit how long to wait
+   * @returns A promise of this Loadable's success value
+   */
+  toPromise(options?: Future.WaitOptions): Promise<To> {
+    return toPromise(this, () => !this.isPending && !this.isLoading, options);
+  }
+
+  /**
+   * Invokes the given listener whenever this Loadable transitions from one
+   * state to another, with both states and the data of the new state.
+   * @param listener The function to invoke on each transition
+   * @returns A function that stops listening
+   */
+  onTransition(listener: Loadable.TransitionListener<To, F>): () => void {
+    return onTransition<To, State, F>(
+      () => ({state: this.state, data: this.data}),
+      listener,
+    );
+  }
+
+  /**
+   * Stops this Loadable from syncing with the Loadable it is derived from,
+   * and disposes every ReadonlyLoadable derived from this one. This Loadable
+   * keeps its last state.
+   */
+  dispose(): void {
+    this.transformation();
+    release(this.underlying, this);
+    dispose(this);
   }
 }
@@ -1,27 +1,207 @@
+import {untracked} from 'mobx';
+
 import {Loadable, ReadonlyLoadable} from '.';
+import {markHandled, silence} from '../config';
+import {cancel, collect, isPromiseLike} from '../extensions';
+import {Future, ReadonlyFuture} from '../future';
+import {expose, Snapshot} from '../internal';
+import {CombinedLoadable} from './combined';
 import {DerivedLoadable} from './derived';
+import {State} from './state';
+import {
+  Availability,
+  availabilityOf,
+  Flight,
+  flightOf,
+  withAvailability,
+  withFlight,
+} from './traits';
 
-export function derive<T, To>(
-  future: ReadonlyLoadable<T>,
-  options: Loadable.DeriveOptions<T, To>,
-): ReadonlyLoadable<To> {
-  return new DerivedLoadable(future, options);
+export function derive<T, To, E extends Error, F extends Error = E>(
+  future: ReadonlyLoadable<T, E>,
+  options: Loadable.DeriveOptions<T, To, E>,
+): ReadonlyLoadable<To, F> {
+  return new DerivedLoadable<T, To, E, F>(future, options);
 }
 
-export function map<T, To>(
-  future: ReadonlyLoadable<T>,
+export function map<T, To, E extends Error>(
+  future: ReadonlyLoadable<T, E>,
   f: (value: T) => To,
-): ReadonlyLoadable<To> {
-  return new DerivedLoadable(future, {
-    success: f,
-  });
+  options: Future.DerivationOptions<To> = {},
+): ReadonlyLoadable<To, E> {
+  return new DerivedLoadable<T, To, E, E>(future, {...options, success: f});
 }
 
-export function rescue<T, To>(
-  future: ReadonlyLoadable<T>,
-  f: (error: Error) => To,
+export function rescue<T, To, E extends Error>(
+  future: ReadonlyLoadable<T, E>,
+  f: (error: E) => To,
+  options: Future.DerivationOptions<To> = {},
 ): ReadonlyLoadable<To> {
-  return new DerivedLoadable(future, {
-    failure: f,
-  });
+  return new DerivedLoadable<T, To, E, Error>(future, {...options, failure: f});
+}
+
+export function flatMap<T, To, E extends Error>(
+  future: ReadonlyLoadable<T, E>,
+  f: (value: T) => ReadonlyLoadable<To, E> | PromiseLike<To>,
+  options: Future.DerivationOptions<To> = {},
+): ReadonlyLoadable<To, E> {
+  /**
+   * Promises returned by `f` are all accepted into the same Loadable, so that
+   * the results of those made for earlier values are discarded, and the
+   * latest value stays available while reloading. Derivations created by `f`
+   * are disposed once they are switched away from. Failures of the accepted
+   * promises are reported by the derivation instead.
+   */
+  const accepted = new Loadable<To, E>();
+  silence(accepted);
+  let last:
+    | {
+        value: T;
+        inner: ReadonlyLoadable<To, E>;
+        created: Array<ReadonlyFuture<any>>;
+      }
+    | undefined;
+
+  const switchTo = (value: T): ReadonlyLoadable<To, E> => {
+    try {
+      const result = f(value);
+      return isPromiseLike(result) ? accepted.accept(result) : result;
+    } catch (e) {
+      cancel(accepted);
+      return accepted.failure(e);
+    }
+  };
+
+  const switchAway = () => {
+    if (last) {
+      last.created.forEach(derivation => derivation.dispose());
+      last = undefined;
+    }
+  };
+
+  return new CombinedLoadable(
+    [future],
+    (): Snapshot<To, State, E> => {
+      markHandled(future);
+      const {state, data} = expose<T, ReadonlyLoadable<T, E>, State, E>(future);
+      if (availabilityOf(state) !== Availability.value) {
+        switchAway();
+        return {state, data: data as E | undefined};
+      }
+
+      const value = data as T;
+      if (!last || last.value !== value) {
+        switchAway();
+        const [next, created] = untracked(() => collect(() => switchTo(value)));
+        last = {value, inner: next, created};
+      }
+      markHandled(last.inner);
+      const inner = expose<To, ReadonlyLoadable<To, E>, State, E>(last.inner);
+      const flight =
+        flightOf(state) === Flight.busy ? Flight.busy : flightOf(inner.state);
+      return {state: withFlight(inner.state, flight), data: inner.data};
+    },
+    () => {
+      switchAway();
+      accepted.dispose();
+    },
+    options,
+  );
+}
+
+export function all<A>(
+  futures: [ReadonlyLoadable<A>],
+  options?: Future.DerivationOptions<[A]>,
+): ReadonlyLoadable<[A]>;
+export function all<A, B>(
+  futures: [ReadonlyLoadable<A>, ReadonlyLoadable<B>],
+  options?: Future.DerivationOptions<[A, B]>,
+): ReadonlyLoadable<[A, B]>;
+export function all<A, B, C>(
+  futures: [ReadonlyLoadable<A>, ReadonlyLoadable<B>, ReadonlyLoadable<C>],
+  options?: Future.DerivationOptions<[A, B, C]>,
+): ReadonlyLoadable<[A, B, C]>;
+export function all<A, B, C, D>(
+  futures: [
+    ReadonlyLoadable<A>,
+    ReadonlyLoadable<B>,
+    ReadonlyLoadable<C>,
+    ReadonlyLoadable<D>
+  ],
+  options?: Future.DerivationOptions<[A, B, C, D]>,
+): ReadonlyLoadable<[A, B, C, D]>;
+export function all<A, B, C, D, E>(
+  futures: [
+    ReadonlyLoadable<A>,
+    ReadonlyLoadable<B>,
+    ReadonlyLoadable<C>,
+    ReadonlyLoadable<D>,
+    ReadonlyLoadable<E>
+  ],
+  options?: Future.DerivationOptions<[A, B, C, D, E]>,
+): ReadonlyLoadable<[A, B, C, D, E]>;
+export function all<A, B, C, D, E, F>(
+  futures: [
+    ReadonlyLoadable<A>,
+    ReadonlyLoadable<B>,
+    ReadonlyLoadable<C>,
+    ReadonlyLoadable<D>,
+    ReadonlyLoadable<E>,
+    ReadonlyLoadable<F>
+  ],
+  options?: Future.DerivationOptions<[A, B, C, D, E, F]>,
+): ReadonlyLoadable<[A, B, C, D, E, F]>;
+export function all<T>(
+  futures: Array<ReadonlyLoadable<T>>,
+  options?: Future.DerivationOptions<T[]>,
+): ReadonlyLoadable<T[]>;
+export function all<T>(
+  futures: {[K in keyof T]: ReadonlyLoadable<T[K]>},
+  options?: Future.DerivationOptions<T>,
+): ReadonlyLoadable<T>;
+export function all(
+  futures: any,
+  options: Future.DerivationOptions<any> = {},
+): ReadonlyLoadable<any> {
+  const keys = Object.keys(futures);
+  const inputs: Array<ReadonlyLoadable<any>> = keys.map(key => futures[key]);
+
+  return new CombinedLoadable(
+    inputs,
+    () => {
+      const snapshots = inputs.map(input => {
+        markHandled(input);
+        return expose<any, ReadonlyLoadable<any>, State>(input);
+      });
+      const flight = snapshots.some(
+        ({state}) => flightOf(state) === Flight.busy,
+      )
+        ? Flight.busy
+        : Flight.idle;
+      const none = withFlight(State.empty, flight);
+
+      const failure = snapshots.find(
+        ({state}) => availabilityOf(state) === Availability.error,
+      );
+      if (failure) {
+        return {
+          state: withAvailability(none, Availability.error),
+          data: failure.data,
+        };
+      }
+      if (
+        snapshots.some(({state}) => availabilityOf(state) === Availability.none)
+      ) {
+        return {state: none, data: undefined};
+      }
+
+      const values: any = Array.isArray(futures) ? [] : {};
+      keys.forEach((key, i) => {
+        values[key] = snapshots[i].data;
+      });
+      return {state: withAvailability(none, Availability.value), data: values};
+    },
+    undefined,
+    options,
+  );
 }
@@ -1,8 +1,10 @@
-import {computed, when} from 'mobx';
+import {autorun, computed, getDebugName, getObserverTree, when} from 'mobx';
 import {Enum} from 'typescript-string-enums';
 
 import {Loadable as L} from '.';
+import {TimeoutError} from '../errors';
 import {expose} from '../internal';
+import {deferred, settled} from '../test-utils';
 import {State} from './state';
 
 describe('Loadable', () => {
@@ -21,6 +23,11 @@ describe('Loadable', () => {
     didBecomeLoading() {
       this.calledLoading = true;
     }
+
+    calledEmpty = false;
+    didBecomeEmpty() {
+      this.calledEmpty = true;
+    }
   }
 
   const successValue = 3;
@@ -43,6 +50,59 @@ describe('Loadable', () => {
 
       expect(l.state).toEqual(State.empty);
     });
+
+    it('names the Loadable after the name option', () => {
+      const named = new Loadable<number>({name: 'userProfile'});
+
+      expect(named.name).toBe('userProfile');
+      expect(getDebugName(named, 'state')).toBe('userProfile.state');
+      expect(named.toString()).toMatch(/^userProfile \{/);
+    });
+
+    it('starts with the initial snapshot without lifecycle methods', () => {
+      const l = expose(
+        new Loadable<number>({
+          initial: {state: State.failure, data: failureValue},
+        }),
+      );
+
+      expect(l.state).toEqual(State.failure);
+      expect(l.data).toBe(failureValue);
+      expect(l.calledFailure).toBe(false);
+    });
+
+    it('makes the initial flight idle', () => {
+      const l = expose(
+        new Loadable<number>({
+          initial: {state: State.reloading, data: successValue},
+        }),
+      );
+
+      expect(l.state).toEqual(State.success);
+    });
+
+    it('keeps equal success values', () => {
+      const l = expose(
+        new Loadable<{id: number}>({
+          equals: (a, b) => a.id === b.id,
+        }).success({id: 1}),
+      );
+      const stored = l.data;
+      l.loading();
+      l.success({id: 1});
+
+      expect(l.state).toEqual(State.success);
+      expect(l.data).toBe(stored);
+    });
+  });
+
+  describe('of', () => {
+    it('creates a success', () => {
+      const l = expose(L.of(successValue));
+
+      expect(l.state).toEqual(State.success);
+      expect(l.data).toBe(successValue);
+    });
   });
 
   describe('success', () => {
@@ -328,6 +388,806 @@ describe('Loadable', () => {
         },
       );
     });
+
+    it('ignores a promise once a newer one is accepted', () => {
+      const l = expose(make.empty());
+      const stale = Promise.resolve(successValue);
+      l.accept(stale);
+      l.accept(never);
+
+      return stale.then(() => {
+        expect(l.state).toEqual(State.pending);
+        expect(l.data).toBeUndefined();
+      });
+    });
+
+    it('keeps reloading while the newest promise is in flight', () => {
+      const l = expose(make.success());
+      const stale = Promise.reject(failureValue);
+      l.accept(stale);
+      l.accept(never);
+
+      return stale.catch(() => {
+        expect(l.state).toEqual(State.reloading);
+        expect(l.data).toEqual(successValue);
+      });
+    });
+
+    it('fails with a TimeoutError once timeoutMs is up', () => {
+      jest.useFakeTimers();
+      try {
+        const l = expose(make.success());
+        l.accept(never, {timeoutMs: 100});
+        jest.advanceTimersByTime(100);
+
+        expect(l.state).toEqual(State.failure);
+        expect(l.data).toBeInstanceOf(TimeoutError);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('cancel', () => {
+    it('transitions from pending to empty', () => {
+      const l = expose(make.pending());
+      l.cancel();
+
+      expect(l.state).toEqual(State.empty);
+    });
+
+    it('transitions from reloading to success', () => {
+      const l = expose(make.reloading());
+      l.cancel();
+
+      expect(l.state).toEqual(State.success);
+      expect(l.data).toEqual(successValue);
+    });
+
+    it('transitions from retrying to failure', () => {
+      const l = expose(make.retrying());
+      l.cancel();
+
+      expect(l.state).toEqual(State.failure);
+      expect(l.data).toEqual(failureValue);
+    });
+
+    it('prevents the accepted promise from settling', () => {
+      const l = expose(make.success());
+      const resolved = Promise.resolve(successValue + 1);
+      l.accept(resolved);
+      l.cancel();
+
+      return resolved.then(() => {
+        expect(l.state).toEqual(State.success);
+        expect(l.data).toEqual(successValue);
+      });
+    });
+  });
+
+  describe('idle', () => {
+    it('drops the flight while keeping the data', () => {
+      expect(expose(make.pending().idle()).state).toEqual(State.empty);
+      expect(expose(make.reloading().idle()).state).toEqual(State.success);
+      expect(expose(make.retrying().idle()).state).toEqual(State.failure);
+      expect(expose(make.reloading().idle()).data).toEqual(successValue);
+    });
+
+    it('does nothing when already idle', () => {
+      for (const state of [State.empty, State.success, State.failure]) {
+        expect(expose(make[state]().idle()).state).toEqual(state);
+      }
+    });
+
+    it('lets the accepted promise settle', () => {
+      const l = expose(make.success());
+      const resolved = Promise.resolve(successValue + 1);
+      l.accept(resolved);
+      l.idle();
+
+      return resolved.then(() => {
+        expect(l.state).toEqual(State.success);
+        expect(l.data).toEqual(successValue + 1);
+      });
+    });
+  });
+
+  describe('reset', () => {
+    it('transitions to empty from every state', () => {
+      for (const state of Enum.keys(L.State)) {
+        const l = expose(make[state]().reset());
+
+        expect(l.state).toEqual(State.empty);
+        expect(l.data).toBeUndefined();
+        expect(l.updatedAt).toBeUndefined();
+      }
+    });
+
+    it('invokes didBecomeEmpty', () => {
+      const l = make.success().reset();
+
+      expect(l.calledEmpty).toBe(true);
+      expect(l.calledLoading).toBe(false);
+    });
+
+    it('prevents the accepted promise from settling', () => {
+      const l = expose(make.success());
+      const resolved = Promise.resolve(successValue + 1);
+      l.accept(resolved);
+      l.reset();
+
+      return resolved.then(() => {
+        expect(l.state).toEqual(State.empty);
+        expect(l.data).toBeUndefined();
+      });
+    });
+
+    it('drops optimistic updates', () => {
+      const l = expose(make.success());
+      const rejected = Promise.reject(failureValue);
+      l.optimistic(successValue + 1, rejected);
+      l.reset();
+
+      return rejected.catch(() => {
+        expect(l.state).toEqual(State.empty);
+        expect(l.rollbackError).toBeUndefined();
+      });
+    });
+  });
+
+  describe('clear', () => {
+    it('calls `reset`', () => {
+      const l = make.success();
+      const reset = jest.fn(l.reset);
+      l.reset = reset;
+      l.clear();
+
+      expect(reset).toBeCalled();
+    });
+  });
+
+  describe('poll', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    function settling<T>(loadable: L<T>, value: T) {
+      return jest.fn(() => {
+        setTimeout(() => loadable.success(value));
+        return new Promise<never>(() => {
+          /* */
+        });
+      });
+    }
+
+    it('accepts right away and then on every interval', () => {
+      const l = expose(make.success());
+      const factory = settling(l, successValue);
+      const stop = l.poll(factory, {intervalMs: 100});
+
+      expect(factory).toHaveBeenCalledTimes(1);
+      expect(l.state).toEqual(State.reloading);
+      expect(l.data).toEqual(successValue);
+
+      jest.advanceTimersByTime(100);
+      expect(factory).toHaveBeenCalledTimes(2);
+      jest.advanceTimersByTime(100);
+      expect(factory).toHaveBeenCalledTimes(3);
+      stop();
+    });
+
+    it('skips an interval while still loading', () => {
+      const l = make.empty();
+      const factory = jest.fn(() => new Promise<never>(() => undefined));
+      const stop = l.poll(factory, {intervalMs: 100});
+      jest.advanceTimersByTime(300);
+      stop();
+
+      expect(factory).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops once disposed', () => {
+      const l = make.empty();
+      const factory = settling(l, successValue);
+      const stop = l.poll(factory, {intervalMs: 100});
+      stop();
+      jest.advanceTimersByTime(300);
+
+      expect(factory).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops once stopWhen holds for the value', () => {
+      const l = make.empty();
+      let calls = 0;
+      const factory = jest.fn(() => {
+        calls += 1;
+        const value = calls;
+        setTimeout(() => l.success(value));
+        return new Promise<never>(() => undefined);
+      });
+      l.poll(factory, {intervalMs: 100, stopWhen: value => value >= 2});
+      jest.advanceTimersByTime(500);
+
+      expect(factory).toHaveBeenCalledTimes(2);
+      expect(l.successOr(undefined)).toBe(2);
+    });
+
+    describe('with pauseWhenUnobserved', () => {
+      it('waits for an observer to start', () => {
+        const l = make.empty();
+        const factory = settling(l, successValue);
+        const stop = l.poll(factory, {
+          intervalMs: 100,
+          pauseWhenUnobserved: true,
+        });
+        jest.advanceTimersByTime(300);
+        expect(factory).not.toBeCalled();
+
+        const unobserve = autorun(() => l.isSuccess);
+        jest.advanceTimersByTime(0);
+        expect(factory).toHaveBeenCalledTimes(1);
+        unobserve();
+        stop();
+      });
+
+      it('starts right away when already observed', () => {
+        const l = make.empty();
+        const unobserve = autorun(() => l.isSuccess);
+        const factory = settling(l, successValue);
+        const stop = l.poll(factory, {
+          intervalMs: 100,
+          pauseWhenUnobserved: true,
+        });
+
+        expect(factory).toHaveBeenCalledTimes(1);
+        unobserve();
+        stop();
+      });
+
+      it('pauses while unobserved', () => {
+        const l = make.empty();
+        const factory = settling(l, successValue);
+        const stop = l.poll(factory, {
+          intervalMs: 100,
+          pauseWhenUnobserved: true,
+        });
+        const unobserve = autorun(() => l.isSuccess);
+        jest.advanceTimersByTime(100);
+        expect(factory).toHaveBeenCalledTimes(2);
+
+        unobserve();
+        jest.advanceTimersByTime(300);
+        expect(factory).toHaveBeenCalledTimes(2);
+
+        const observe = autorun(() => l.isSuccess);
+        jest.advanceTimersByTime(0);
+        expect(factory).toHaveBeenCalledTimes(3);
+        observe();
+        stop();
+      });
+    });
+  });
+
+  describe('optimistic', () => {
+    it('shows the value right away while reloading', () => {
+      const l = expose(make.success());
+      l.optimistic(successValue + 1, deferred<number>().promise);
+
+      expect(l.state).toEqual(State.reloading);
+      expect(l.data).toBe(successValue + 1);
+    });
+
+    it('commits the result once fulfilled', async () => {
+      const l = expose(make.success());
+      const update = deferred<number>();
+      l.optimistic(successValue + 1, update.promise);
+      update.resolve(successValue + 2);
+      await settled();
+
+      expect(l.state).toEqual(State.success);
+      expect(l.data).toBe(successValue + 2);
+      expect(l.calledSuccess).toBe(true);
+    });
+
+    it('rolls back once rejected, keeping the error', async () => {
+      const l = expose(make.success());
+      const update = deferred<number>();
+      l.optimistic(successValue + 1, update.promise);
+      update.reject(failureValue);
+      await settled();
+
+      expect(l.state).toEqual(State.success);
+      expect(l.data).toBe(successValue);
+      expect(l.rollbackError).toBe(failureValue);
+    });
+
+    it('rolls back to empty', async () => {
+      const l = expose(make.empty());
+      const update = deferred<number>();
+      l.optimistic(successValue, update.promise);
+      update.reject(failureValue);
+      await settled();
+
+      expect(l.state).toEqual(State.empty);
+      expect(l.data).toBeUndefined();
+    });
+
+    it('keeps showing a newer update when an older one rolls back', async () => {
+      const l = expose(make.success());
+      const older = deferred<number>();
+      const newer = deferred<number>();
+      l.optimistic(1, older.promise);
+      l.optimistic(2, newer.promise);
+      older.reject(failureValue);
+      await settled();
+
+      expect(l.state).toEqual(State.reloading);
+      expect(l.data).toBe(2);
+
+      newer.resolve(20);
+      await settled();
+
+      expect(l.state).toEqual(State.success);
+      expect(l.data).toBe(20);
+    });
+
+    it('never replaces the result of a newer update', async () => {
+      const l = expose(make.success());
+      const older = deferred<number>();
+      const newer = deferred<number>();
+      l.optimistic(1, older.promise);
+      l.optimistic(2, newer.promise);
+      newer.resolve(20);
+      await settled();
+
+      expect(l.state).toEqual(State.reloading);
+      expect(l.data).toBe(20);
+
+      older.resolve(10);
+      await settled();
+
+      expect(l.state).toEqual(State.success);
+      expect(l.data).toBe(20);
+    });
+
+    it('rolls back to the prior state once every update rolls back', async () => {
+      const l = expose(make.failure());
+      const older = deferred<number>();
+      const newer = deferred<number>();
+      l.optimistic(1, older.promise);
+      l.optimistic(2, newer.promise);
+      newer.reject(failureValue);
+      await settled();
+
+      expect(l.data).toBe(1);
+
+      older.reject(failureValue);
+      await settled();
+
+      expect(l.state).toEqual(State.failure);
+      expect(l.data).toBe(failureValue);
+    });
+
+    it('rolls back to an idle state once cancelled', async () => {
+      const l = expose(make.empty());
+      const update = deferred<number>();
+      l.accept(deferred<number>().promise);
+      l.optimistic(successValue, update.promise);
+      l.cancel();
+      update.reject(failureValue);
+      await settled();
+
+      expect(l.isLoading).toBe(false);
+      expect(l.state).toEqual(State.empty);
+    });
+
+    it('rolls back to an idle state once set idle', async () => {
+      const l = expose(make.success());
+      const update = deferred<number>();
+      l.accept(deferred<number>().promise);
+      l.optimistic(successValue + 1, update.promise);
+      l.idle();
+      update.reject(failureValue);
+      await settled();
+
+      expect(l.isLoading).toBe(false);
+      expect(l.state).toEqual(State.success);
+      expect(l.data).toBe(successValue);
+    });
+
+    it('rolls back to a result accepted in the meantime', async () => {
+      const l = expose(make.success());
+      const update = deferred<number>();
+      const request = deferred<number>();
+      l.optimistic(successValue + 1, update.promise);
+      l.accept(request.promise);
+      request.resolve(successValue + 2);
+      await settled();
+
+      expect(l.state).toEqual(State.reloading);
+      expect(l.data).toBe(successValue + 1);
+
+      update.reject(failureValue);
+      await settled();
+
+      expect(l.state).toEqual(State.success);
+      expect(l.data).toBe(successValue + 2);
+    });
+
+    it('commits over a result accepted in the meantime', async () => {
+      const l = expose(make.success());
+      const update = deferred<number>();
+      const request = deferred<number>();
+      l.optimistic(successValue + 1, update.promise);
+      l.accept(request.promise);
+      request.reject(failureValue);
+      await settled();
+      update.resolve(successValue + 3);
+      await settled();
+
+      expect(l.state).toEqual(State.success);
+      expect(l.data).toBe(successValue + 3);
+    });
+  });
+
+  describe('freshness', () => {
+    let now: jest.SpyInstance;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    });
+
+    afterEach(() => {
+      now.mockRestore();
+      jest.useRealTimers();
+    });
+
+    function advance(ms: number) {
+      now.mockReturnValue(Date.now() + ms);
+      jest.advanceTimersByTime(ms);
+    }
+
+    describe('updatedAt', () => {
+      it('is undefined when empty', () => {
+        expect(make.empty().updatedAt).toBeUndefined();
+      });
+
+      it('is set by success and failure', () => {
+        const l = make.empty().success(successValue);
+        expect(l.updatedAt).toBe(1000);
+
+        advance(10);
+        l.failure(failureValue);
+        expect(l.updatedAt).toBe(1010);
+      });
+
+      it('is kept while loading', () => {
+        const l = make.success();
+        advance(10);
+        l.loading();
+
+        expect(l.updatedAt).toBe(1000);
+      });
+    });
+
+    describe('isStale', () => {
+      it('is true when empty', () => {
+        expect(make.empty().isStale).toBe(true);
+      });
+
+      it('is true right away by default', () => {
+        expect(make.success().isStale).toBe(true);
+      });
+
+      it('becomes true once staleTime has passed', () => {
+        const l = make.empty();
+        l.staleTime = 100;
+        l.success(successValue);
+        const stale: boolean[] = [];
+        const stop = autorun(() => stale.push(l.isStale));
+
+        advance(99);
+        advance(1);
+        stop();
+
+        expect(stale).toEqual([false, true]);
+      });
+
+      it('is never true with an infinite staleTime', () => {
+        const l = make.empty();
+        l.staleTime = Infinity;
+        l.failure(failureValue);
+        advance(Number.MAX_SAFE_INTEGER);
+
+        expect(l.isStale).toBe(false);
+      });
+    });
+
+    describe('refreshIfStale', () => {
+      const never = new Promise<never>((_resolve, _reject) => {
+        /* */
+      });
+
+      it('accepts from the factory when stale', () => {
+        const l = expose(make.success());
+        const factory = jest.fn(() => never);
+        l.refreshIfStale(factory);
+
+        expect(factory).toHaveBeenCalledTimes(1);
+        expect(l.state).toEqual(State.reloading);
+      });
+
+      it('does nothing when fresh', () => {
+        const l = make.empty();
+        l.staleTime = 100;
+        l.success(successValue);
+        const factory = jest.fn(() => never);
+        l.refreshIfStale(factory);
+
+        expect(factory).not.toBeCalled();
+      });
+
+      it('does nothing when already loading', () => {
+        const l = make.pending();
+        const factory = jest.fn(() => never);
+        l.refreshIfStale(factory);
+
+        expect(factory).not.toBeCalled();
+      });
+    });
+  });
+
+  describe('retry', () => {
+    const other = new Error('other');
+
+    function failing(times: number) {
+      let calls = 0;
+      return jest.fn(() => {
+        calls += 1;
+        return calls > times
+          ? Promise.resolve(successValue)
+          : Promise.reject(other);
+      });
+    }
+
+    it('retries until a promise is fulfilled', done => {
+      const factory = failing(2);
+      const l = expose(make.empty());
+      l.retry(factory, {delay: 1, jitter: 0});
+
+      when(
+        () => !l.isLoading,
+        () => {
+          expect(factory).toHaveBeenCalledTimes(3);
+          expect(l.state).toEqual(State.success);
+          expect(l.data).toEqual(successValue);
+          expect(l.attempt).toBe(0);
+          done();
+        },
+      );
+    });
+
+    it('gives up after the given number of attempts', done => {
+      const factory = failing(2);
+      const l = expose(make.empty());
+      l.retry(factory, {attempts: 2, delay: 1, jitter: 0});
+
+      when(
+        () => !l.isLoading,
+        () => {
+          expect(factory).toHaveBeenCalledTimes(2);
+          expect(l.state).toEqual(State.failure);
+          expect(l.data).toBe(other);
+          done();
+        },
+      );
+    });
+
+    it('fails with the last rejection mapped by mapError', done => {
+      const mapped = new Error('mapped');
+      const l = expose(make.empty());
+      l.retry(failing(2), {
+        attempts: 2,
+        delay: 1,
+        jitter: 0,
+        mapError: reason => (reason === other ? mapped : reason),
+      });
+
+      when(
+        () => !l.isLoading,
+        () => {
+          expect(l.data).toBe(mapped);
+          done();
+        },
+      );
+    });
+
+    it('does not retry errors that are not retryable', done => {
+      const factory = failing(1);
+      const l = expose(make.empty());
+      l.retry(factory, {delay: 1, retryable: e => e !== other});
+
+      when(
+        () => !l.isLoading,
+        () => {
+          expect(factory).toHaveBeenCalledTimes(1);
+          expect(l.state).toEqual(State.failure);
+          done();
+        },
+      );
+    });
+
+    it('is retrying with the error while waiting', done => {
+      const l = expose(make.success());
+      l.retry(failing(1), {delay: 1000, jitter: 0});
+
+      when(
+        () => l.nextRetryAt !== undefined,
+        () => {
+          expect(l.state).toEqual(State.retrying);
+          expect(l.data).toBe(other);
+          expect(l.attempt).toBe(1);
+          expect(l.nextRetryAt).toBeGreaterThan(Date.now());
+          l.cancel();
+          expect(l.state).toEqual(State.failure);
+          expect(l.nextRetryAt).toBeUndefined();
+          done();
+        },
+      );
+    });
+  });
+
+  describe('whenSettled', () => {
+    it('waits for a reload to finish', () => {
+      const l = expose(make.reloading());
+      const settled = l.whenSettled();
+      l.success(successValue + 1);
+
+      return settled.then(() => {
+        expect(l.state).toEqual(State.success);
+        expect(l.data).toEqual(successValue + 1);
+      });
+    });
+
+    it('waits for an empty Loadable to get data', () => {
+      const l = make.empty();
+      const settled = l.whenSettled();
+      l.failure(failureValue);
+
+      return expect(settled).resolves.toBe(l);
+    });
+  });
+
+  describe('toPromise', () => {
+    it('resolves with the success value once idle', () => {
+      const l = make.retrying();
+      const promise = l.toPromise();
+      l.success(successValue);
+
+      return expect(promise).resolves.toBe(successValue);
+    });
+
+    it('rejects with the error once idle', () => {
+      const l = make.reloading();
+      const promise = l.toPromise();
+      l.failure(failureValue);
+
+      return expect(promise).rejects.toBe(failureValue);
+    });
+
+    it('rejects with a TimeoutError once timeoutMs is up', () => {
+      const l = make.pending();
+
+      return expect(l.toPromise({timeoutMs: 0})).rejects.toBeInstanceOf(
+        TimeoutError,
+      );
+    });
+  });
+
+  describe('onTransition', () => {
+    it('invokes the listener on each transition', () => {
+      const l = make.empty();
+      const listener = jest.fn();
+      l.onTransition(listener);
+      l.loading();
+      l.success(successValue);
+      l.loading();
+
+      expect(listener.mock.calls).toEqual([
+        [State.empty, State.pending, undefined],
+        [State.pending, State.success, successValue],
+        [State.success, State.reloading, successValue],
+      ]);
+    });
+
+    it('stops once disposed', () => {
+      const l = make.empty();
+      const listener = jest.fn();
+      l.onTransition(listener)();
+      l.loading();
+
+      expect(listener).not.toBeCalled();
+    });
+  });
+
+  describe('Symbol.asyncIterator', () => {
+    it('yields a snapshot each time a reload finishes', async () => {
+      const l = make.empty();
+      const transitions = l[Symbol.asyncIterator]();
+      l.loading().success(successValue);
+      l.loading().failure(failureValue);
+
+      expect(await transitions.next()).toEqual({
+        value: {state: State.success, data: successValue},
+        done: false,
+      });
+      expect(await transitions.next()).toEqual({
+        value: {state: State.failure, data: failureValue},
+        done: false,
+      });
+    });
+
+    it('skips loading states', () => {
+      const l = make.reloading();
+      const transitions = l[Symbol.asyncIterator]();
+      l.success(successValue + 1);
+
+      return expect(transitions.next()).resolves.toEqual({
+        value: {state: State.success, data: successValue + 1},
+        done: false,
+      });
+    });
+  });
+
+  describe('toJSON', () => {
+    it('serializes the state and data', () => {
+      expect(make.reloading().toJSON()).toEqual({
+        state: State.reloading,
+        data: successValue,
+      });
+    });
+
+    it('serializes an error', () => {
+      expect(make.retrying().toJSON()).toEqual({
+        state: State.retrying,
+        data: {
+          name: 'Error',
+          message: failureValue.message,
+          stack: failureValue.stack,
+        },
+      });
+    });
+  });
+
+  describe('fromJSON', () => {
+    function roundTrip<T>(l: L<T>) {
+      return expose(L.fromJSON<T>(JSON.parse(JSON.stringify(l))));
+    }
+
+    it('rehydrates a success', () => {
+      const l = roundTrip(make.success());
+
+      expect(l.state).toEqual(State.success);
+      expect(l.data).toEqual(successValue);
+    });
+
+    it('revives an error', () => {
+      const l = roundTrip(make.failure());
+
+      expect(l.state).toEqual(State.failure);
+      expect(l.data).toBeInstanceOf(Error);
+      expect(l.data).toMatchObject({message: failureValue.message});
+    });
+
+    it('rehydrates with an idle flight', () => {
+      expect(roundTrip(make.pending()).state).toEqual(State.empty);
+      expect(roundTrip(make.reloading()).state).toEqual(State.success);
+      expect(roundTrip(make.retrying()).state).toEqual(State.failure);
+    });
+
+    it('throws on an invalid state', () => {
+      expect(() => L.fromJSON({state: 'foo' as any})).toThrow(TypeError);
+    });
   });
 
   describe('successOr', () => {
@@ -465,4 +1325,138 @@ describe('Loadable', () => {
       expect(g.state).toBe(f.state);
     });
   });
+
+  describe('flatMap', () => {
+    it('syncs with the returned loadable', () => {
+      const l = make.success();
+      const inner = make.pending();
+      const m = expose(l.flatMap(() => inner));
+
+      expect(m.state).toBe(State.pending);
+      inner.success(successValue + 1);
+      expect(m.state).toBe(State.success);
+      expect(m.data).toBe(successValue + 1);
+    });
+
+    it('passes through an error', () => {
+      const l = make.retrying();
+      const m = expose(l.flatMap(() => make.success()));
+
+      expect(m.state).toBe(State.retrying);
+      expect(m.data).toBe(failureValue);
+    });
+
+    it('is loading while this loadable is loading', () => {
+      const l = make.reloading();
+      const m = expose(l.flatMap(() => make.success()));
+
+      expect(m.state).toBe(State.reloading);
+      expect(m.data).toBe(successValue);
+    });
+
+    it('disposes the derivations made for earlier values', () => {
+      const l = make.success();
+      const other = make.success();
+      const m = l.flatMap(v => other.map(w => v + w));
+      const observers = () =>
+        (getObserverTree(other, 'state').observers || []).length;
+
+      l.success(successValue + 1);
+      l.success(successValue + 2);
+      expect(observers()).toBe(1);
+      expect(m.successOr(undefined)).toBe(successValue * 2 + 2);
+
+      m.dispose();
+      expect(observers()).toBe(0);
+    });
+
+    it('keeps the previous result while reloading a promise', () => {
+      const l = make.success();
+      const resolved = Promise.resolve('foo');
+      const never = new Promise<string>(() => undefined);
+      const m = expose(l.flatMap(v => (v === successValue ? resolved : never)));
+
+      return resolved.then(() => {
+        l.success(successValue + 1);
+        expect(m.state).toBe(State.reloading);
+        expect(m.data).toBe('foo');
+      });
+    });
+
+    it('takes the name and equals options', () => {
+      const l = make.success();
+      const inner = make.success();
+      const m = expose(
+        l.flatMap(() => L.all([make.success(), inner]), {
+          name: 'flat',
+          equals: (a, b) => a[0] === b[0],
+        }),
+      );
+      const data = m.data;
+      inner.success(successValue + 1);
+
+      expect(getDebugName(m, 'state')).toBe('flat.state');
+      expect(m.data).toBe(data);
+    });
+  });
+
+  describe('all', () => {
+    it('is a success with all values when all are successes', () => {
+      const l = expose(L.all([make.success(), make.success()]));
+
+      expect(l.state).toBe(State.success);
+      expect(l.data).toEqual([successValue, successValue]);
+    });
+
+    it('preserves the keys of an object', () => {
+      const l = expose(L.all({a: make.success(), b: make.success()}));
+
+      expect(l.data).toEqual({a: successValue, b: successValue});
+    });
+
+    it('is reloading when any is loading', () => {
+      const l = expose(L.all([make.success(), make.reloading()]));
+
+      expect(l.state).toBe(State.reloading);
+      expect(l.data).toEqual([successValue, successValue]);
+    });
+
+    it('is retrying when any is a failure and any is loading', () => {
+      const l = expose(L.all([make.pending(), make.failure()]));
+
+      expect(l.state).toBe(State.retrying);
+      expect(l.data).toBe(failureValue);
+    });
+
+    it('is empty when any has no data and none are loading', () => {
+      const l = expose(L.all([make.success(), make.empty()]));
+
+      expect(l.state).toBe(State.empty);
+    });
+
+    it('updates as its inputs change', () => {
+      const f = make.pending();
+      const l = expose(L.all([make.success(), f]));
+
+      expect(l.state).toBe(State.pending);
+      f.success(successValue + 1);
+      expect(l.state).toBe(State.success);
+      expect(l.data).toEqual([successValue, successValue + 1]);
+    });
+
+    it('takes the name and equals options', () => {
+      const f = make.success();
+      const l = expose(
+        L.all([make.success(), f], {
+          name: 'combined',
+          equals: (a, b) => a[0] === b[0],
+        }),
+      );
+      const data = l.data;
+      f.success(successValue + 1);
+
+      expect(getDebugName(l, 'state')).toBe('combined.state');
+      expect(l.data).toBe(data);
+    });
+  });
 });
@@ -1,10 +1,30 @@
-import {action, computed, observable} from 'mobx';
+import {action, comparer, computed, getDebugName, observable} from 'mobx';
 
-import {accept, failureOr, successOr} from '../extensions';
+import {markHandled, reportFailure} from '../config';
+import {
+  accept,
+  cancel,
+  dispose,
+  failureOr,
+  onTransition,
+  successOr,
+  toPromise,
+  transitions,
+  whenSettled,
+} from '../extensions';
 import {Future} from '../future';
+import {
+  boundAction,
+  rename,
+  Snapshot as _Snapshot,
+  TransitionListener as _TransitionListener,
+} from '../internal';
+import {reviveSnapshot, Serialized, serializeSnapshot} from '../json';
 import {Lazy} from '../lazy';
-import {derive, map, rescue} from './extensions';
+import {all, derive, flatMap, map, rescue} from './extensions';
 import {match} from './match';
+import {polling} from './poll';
+import {retrying} from './retry';
 import {State as _State} from './state';
 import {
   Availability,
@@ -14,6 +34,18 @@ import {
   withFlight,
 } from './traits';
 
+interface OptimisticUpdate<T> {
+  sequence: number;
+  value: T;
+}
+
+interface ConfirmedUpdate<T, E extends Error> {
+  sequence: number;
+  state: _State;
+  data: T | E | undefined;
+  committed: boolean;
+}
+
 /**
  * Loadable is an extension of Failable. It has six states: empty, pending,
  * success, reloading, failure, and retrying. When constructed, it starts out
@@ -23,12 +55,121 @@ import {
  * between these states. The computed properties indicate the current state,
  * but for day-to-day usage, prefer the `match` method.
  */
-export class Loadable<T> implements Future<T> {
-  @observable protected data: T | Error | undefined = undefined;
+export class Loadable<T, E extends Error = Error> implements Future<T, E> {
+  /**
+   * Combines the given Loadables, given as either a tuple or an object, into a
+   * ReadonlyLoadable of their values of the same shape. The combination has a
+   * value once all of them do, an error as soon as any of them does, and no
+   * data otherwise. With several errors, the first one is picked. It is
+   * loading whenever any of them is.
+   */
+  static all = all;
+
+  /**
+   * Rehydrates a Loadable from the JSON form produced by `toJSON`. Errors are
+   * revived by the reviver registered for their name, if any, or as plain
+   * errors otherwise. As no request can be in flight, the flight becomes
+   * idle. No lifecycle methods are invoked.
+   * @param json The JSON form of a Loadable
+   * @param options Options that customize the new Loadable
+   * @returns A new Loadable with the given state and data
+   */
+  static fromJSON<T, E extends Error = Error>(
+    json: Serialized<T, _State>,
+    options?: Loadable.Options<T, E>,
+  ): Loadable<T, E> {
+    return new Loadable<T, E>(options).hydrate(json);
+  }
+
+  /**
+   * Creates a Loadable that is already a success with the given value. No
+   * lifecycle methods are invoked.
+   * @param value The value associated with the success
+   * @param options Options that customize the new Loadable
+   * @returns A new Loadable that is a success
+   */
+  static of<T, E extends Error = Error>(
+    value: T,
+    options: Loadable.Options<T, E> = {},
+  ): Loadable<T, E> {
+    return new Loadable<T, E>({
+      ...options,
+      initial: {state: _State.success, data: value},
+    });
+  }
+
+  @observable protected data: T | E | undefined = undefined;
   @observable protected state: _State = _State.empty;
+  @observable protected currentAttempt: number = 0;
+  @observable protected retryAt: number | undefined = undefined;
+  @observable protected lastUpdate: number | undefined = undefined;
+  @observable protected expired: boolean = false;
+  protected expiry: ReturnType<typeof setTimeout> | undefined;
+  @observable protected lastRollback: E | undefined = undefined;
+  protected updates: Array<OptimisticUpdate<T>> = [];
+  protected confirmed: ConfirmedUpdate<T, E> | undefined;
+  protected sequence: number = 0;
+  protected equals: (a: T, b: T) => boolean;
+
+  /**
+   * How long, in milliseconds, a value or an error stays fresh after it is
+   * set. By default, it is stale right away. Changes take effect from the next
+   * update.
+   */
+  staleTime: number = 0;
+
+  /**
+   * Creates a Loadable, which is empty unless an `initial` snapshot is given,
+   * in which case no lifecycle methods are invoked. As no request can be in
+   * flight, the flight becomes idle. See `Loadable.Options` for the other
+   * options.
+   * @param options Options that customize this Loadable
+   */
+  constructor(options: Loadable.Options<T, E> = {}) {
+    const {name, initial, equals = comparer.identity} = options;
+    if (name !== undefined) {
+      rename(this, name);
+    }
+    if (initial) {
+      this.state = withFlight(initial.state, Flight.idle);
+      this.data = initial.data;
+    }
+    this.equals = equals;
+  }
+
+  /**
+   * The name of this Loadable, as given to the constructor, or as generated by
+   * MobX otherwise.
+   */
+  get name(): string {
+    return getDebugName(this);
+  }
 
   toString(): string {
-    return `Loadable { state=${this.state}, data=${this.data} }`;
+    return `${this.name} { state=${this.state}, data=${this.data} }`;
+  }
+
+  /**
+   * Returns the JSON form of this Loadable: its state, and its data, if any.
+   * An error is serialized as its name, message, stack and own properties.
+   */
+  toJSON(): Serialized<T, _State> {
+    return serializeSnapshot<T, _State, E>(
+      {state: this.state, data: this.data},
+      this.isFailure,
+    );
+  }
+
+  @action
+  protected hydrate(json: Serialized<T, _State>): this {
+    const {state, data} = reviveSnapshot<T, _State, E>(
+      _State,
+      json,
+      s => availabilityOf(s) === Availability.error,
+    );
+    this.state = withFlight(state, Flight.idle);
+    this.data = data;
+    return this;
   }
 
   /**
@@ -65,14 +206,72 @@ export class Loadable<T> implements Future<T> {
   }
 
   /**
-   * Sets this Loadable to a success.
+   * The number of the ongoing attempt of `retry`, starting at 1, or 0 when
+   * this Loadable is not retrying.
+   */
+  @computed
+  get attempt(): number {
+    return this.currentAttempt;
+  }
+
+  /**
+   * The timestamp, in milliseconds, at which `retry` starts its next attempt,
+   * or undefined when no attempt is scheduled.
+   */
+  @computed
+  get nextRetryAt(): number | undefined {
+    return this.retryAt;
+  }
+
+  /**
+   * The timestamp, in milliseconds, at which this Loadable last became a
+   * success or a failure, or undefined if it never did.
+   */
+  @computed
+  get updatedAt(): number | undefined {
+    return this.lastUpdate;
+  }
+
+  /**
+   * Indicates if this Loadable has no value or error, or if its value or error
+   * is older than `staleTime`.
+   */
+  @computed
+  get isStale(): boolean {
+    return (
+      this.lastUpdate === undefined ||
+      this.expired ||
+      Date.now() - this.lastUpdate >= this.staleTime
+    );
+  }
+
+  /**
+   * The error that the latest rolled back optimistic update failed with, or
+   * undefined once another update starts.
+   */
+  @computed
+  get rollbackError(): E | undefined {
+    return this.lastRollback;
+  }
+
+  /**
+   * Sets this Loadable to a success. While optimistic updates are unsettled,
+   * the value replaces the state they roll back to instead, and is shown once
+   * they have settled, unless one of them is committed.
    * @param data The value associated with the success.
    * @returns This, enabling chaining.
    */
-  @action.bound
+  @boundAction
   success(data: T): this {
+    if (this.updates.length > 0) {
+      return this.rebase(_State.success, data);
+    }
+    if (!this.isSuccess || !this.equals(this.data as T, data)) {
+      this.data = data;
+    }
     this.state = _State.success;
-    this.data = data;
+    this.settleRetries();
+    this.touch();
     this.didBecomeSuccess(data);
     return this;
   }
@@ -86,15 +285,23 @@ export class Loadable<T> implements Future<T> {
   }
 
   /**
-   * Sets this Loadable to a failure.
+   * Sets this Loadable to a failure. While optimistic updates are unsettled,
+   * the error replaces the state they roll back to instead, like `success`.
    * @param error The error associated with the failure.
    * @returns This, enabling chaining.
    */
-  @action.bound
-  failure(error: Error): this {
+  @boundAction
+  failure(error: E): this {
+    if (this.updates.length > 0) {
+      reportFailure(this, error);
+      return this.rebase(_State.failure, error);
+    }
     this.state = _State.failure;
     this.data = error;
+    this.settleRetries();
+    this.touch();
     this.didBecomeFailure(error);
+    reportFailure(this, error);
     return this;
   }
 
@@ -102,7 +309,7 @@ export class Loadable<T> implements Future<T> {
    * A lifecycle method that is invoked after this Loadable becomes a success.
    * This can be overridden in a subclass.
    */
-  protected didBecomeFailure(_error: Error): void {
+  protected didBecomeFailure(_error: E): void {
     /* */
   }
 
@@ -110,7 +317,7 @@ export class Loadable<T> implements Future<T> {
    * An alias to `loading`. Unlike standard Future behavior, calling this does
    * not clear existing data.
    */
-  @action.bound
+  @boundAction
   pending(): this {
     return this.loading();
   }
@@ -123,7 +330,7 @@ export class Loadable<T> implements Future<T> {
    * happens.
    * @returns This, enabling chaining.
    */
-  @action.bound
+  @boundAction
   loading(): this {
     const oldState = this.state;
     const newState = withFlight(oldState, Flight.busy);
@@ -144,13 +351,67 @@ export class Loadable<T> implements Future<T> {
     /* */
   }
 
+  /**
+   * Sets this Loadable to an idle state, keeping its data. If the current
+   * state is pending, the new state is empty. If the current state is
+   * reloading, the new state is success. If the current state is retrying,
+   * the new state is failure. Unlike `cancel`, the accepted promise, if any,
+   * may still settle this Loadable.
+   * @returns This, enabling chaining.
+   */
+  @boundAction
+  idle(): this {
+    this.state = withFlight(this.state, Flight.idle);
+    this.idleConfirmed();
+    return this;
+  }
+
+  /**
+   * Sets this Loadable back to empty, forgetting its data. The accepted
+   * promise, if any, is cancelled, and pending retries and optimistic updates
+   * are dropped, so that none of them can settle this Loadable anymore.
+   * @returns This, enabling chaining.
+   */
+  @boundAction
+  reset(): this {
+    cancel(this);
+    this.settleRetries();
+    this.clearExpiry();
+    this.updates = [];
+    this.confirmed = undefined;
+    this.lastRollback = undefined;
+    this.lastUpdate = undefined;
+    this.expired = false;
+    this.state = _State.empty;
+    this.data = undefined;
+    this.didBecomeEmpty();
+    return this;
+  }
+
+  /**
+   * An alias to `reset`.
+   */
+  @boundAction
+  clear(): this {
+    return this.reset();
+  }
+
+  /**
+   * A lifecycle method that is invoked after this Loadable is reset to empty.
+   * This can be overridden in a subclass.
+   */
+  protected didBecomeEmpty(): void {
+    /* */
+  }
+
   /**
    * Invokes one of the provided callbacks that corresponds this Loadable's
    * current state.
    * @param options An object of callbacks to be invoked according to the state.
    * @returns The return value of whichever callback was selected.
    */
-  match<A, B, C>(options: Loadable.MatchOptions<T, A, B, C>): A | B | C {
+  match<A, B, C>(options: Loadable.MatchOptions<T, A, B, C, E>): A | B | C {
+    markHandled(this);
     return match(this.state, this.data, this.isLoading, options);
   }
 
@@ -159,14 +420,252 @@ export class Loadable<T> implements Future<T> {
    * and then either setting this Loadable to a success if the promise was
    * fulfilled, or setting this Loadable to a failure if the promise was
    * rejected.
-   * @param promise A promise to be accepted
+   *
+   * Only the most recently accepted promise may settle this Loadable. When an
+   * earlier promise settles after a newer one was accepted, its result is
+   * dropped.
+   *
+   * Instead of a promise, a factory that takes an `AbortSignal` can be given.
+   * The signal is aborted once the promise is superseded or cancelled.
+   * @param source A promise, or a promise factory, to be accepted
+   * @param options Options that customize how the promise is accepted
+   * @returns This, enabling chaining.
+   */
+  accept(source: Future.Source<T>, options?: Future.AcceptOptions<T, E>): this {
+    accept(this, source, options);
+    return this;
+  }
+
+  /**
+   * Cancels the accepted promise, if any, so that it can no longer settle
+   * this Loadable, and aborts it if it was produced by a factory. The flight
+   * becomes idle: pending returns to empty, reloading returns to success, and
+   * retrying returns to failure.
+   * @returns This, enabling chaining.
+   */
+  @boundAction
+  cancel(): this {
+    cancel(this);
+    this.state = withFlight(this.state, Flight.idle);
+    this.idleConfirmed();
+    this.settleRetries();
+    return this;
+  }
+
+  /**
+   * Accepts the promises produced by the given factory, invoking it again
+   * whenever a promise is rejected, until one is fulfilled or the policy
+   * gives up. While waiting for the next attempt, this Loadable is retrying
+   * with the latest error. See `Loadable.RetryPolicy` for the defaults.
+   *
+   * Like `accept`, retries stop once a newer promise is accepted or this
+   * Loadable is cancelled.
+   * @param factory A promise factory, invoked once per attempt
+   * @param policy Options that customize how and when to retry
+   * @returns This, enabling chaining.
+   */
+  retry(
+    factory: (signal: AbortSignal) => PromiseLike<T>,
+    policy: Loadable.RetryPolicy<T, E> = {},
+  ): this {
+    accept(
+      this,
+      signal =>
+        retrying(factory, policy, signal, {
+          attempt: this.startAttempt,
+          retry: this.scheduleRetry,
+        }),
+      {
+        superseded: policy.superseded,
+        mapError: policy.mapError,
+        timeoutMs: policy.timeoutMs,
+      },
+    );
+    return this;
+  }
+
+  /**
+   * Accepts the promises produced by the given factory on an interval,
+   * starting right away, so that this Loadable is reloading or retrying with
+   * its existing data in the meantime. An interval is skipped while this
+   * Loadable is still loading. See `Loadable.PollOptions` for the options.
+   * @param factory A promise factory, invoked once per interval
+   * @param options Options that customize how and when to poll
+   * @returns A disposer that stops polling, leaving any request in flight
+   */
+  poll(
+    factory: (signal: AbortSignal) => PromiseLike<T>,
+    options: Loadable.PollOptions<T, E>,
+  ): () => void {
+    return polling(this, factory, options);
+  }
+
+  /**
+   * Sets this Loadable to the given value right away, while reloading, until
+   * the given promise settles. Once it is fulfilled, its result is committed.
+   * Once it is rejected, this Loadable is rolled back to its prior state, and
+   * the error is kept as `rollbackError`.
+   *
+   * Concurrent updates are ordered by when they started. The value of the
+   * newest unsettled update is shown, unless a newer update was committed in
+   * the meantime, and the result of an update never replaces that of a newer
+   * one. Rolling back an update only takes effect once every newer update has
+   * settled too.
+   * @param value The value to show until the promise settles
+   * @param promise The promise of the actual value
    * @returns This, enabling chaining.
    */
-  accept(promise: PromiseLike<T>): this {
-    accept(this, promise);
+  @boundAction
+  optimistic(value: T, promise: PromiseLike<T>): this {
+    if (this.updates.length === 0) {
+      this.confirmed = {
+        sequence: this.sequence,
+        state: this.state,
+        data: this.data,
+        committed: false,
+      };
+    }
+    const update = {sequence: ++this.sequence, value};
+    this.updates.push(update);
+    this.lastRollback = undefined;
+    this.showUpdates();
+
+    Promise.resolve(promise).then(
+      result => this.commit(update, result),
+      error => this.rollback(update, error),
+    );
     return this;
   }
 
+  @boundAction
+  protected commit(update: OptimisticUpdate<T>, result: T): void {
+    if (this.updates.indexOf(update) === -1) {
+      return;
+    }
+    this.updates = this.updates.filter(u => u !== update);
+    if (update.sequence > this.confirmed!.sequence) {
+      this.confirmed = {
+        sequence: update.sequence,
+        state: _State.success,
+        data: result,
+        committed: true,
+      };
+    }
+    this.showUpdates();
+  }
+
+  @boundAction
+  protected rollback(update: OptimisticUpdate<T>, error: E): void {
+    if (this.updates.indexOf(update) === -1) {
+      return;
+    }
+    this.updates = this.updates.filter(u => u !== update);
+    this.lastRollback = error;
+    this.showUpdates();
+  }
+
+  /**
+   * Sets the state that pending optimistic updates roll back to idle as well,
+   * so that a rollback does not bring back a request that is no longer in
+   * flight.
+   */
+  protected idleConfirmed(): void {
+    if (this.updates.length > 0) {
+      this.confirmed!.state = withFlight(this.confirmed!.state, Flight.idle);
+    }
+  }
+
+  /**
+   * Replaces the state that unsettled optimistic updates roll back to, so
+   * that a result settled in the meantime is not lost to a rollback.
+   */
+  protected rebase(state: _State, data: T | E): this {
+    this.confirmed = {
+      sequence: this.confirmed!.sequence,
+      state,
+      data,
+      committed: state === _State.success,
+    };
+    this.settleRetries();
+    this.showUpdates();
+    return this;
+  }
+
+  protected showUpdates(): void {
+    const confirmed = this.confirmed!;
+    const newest = this.updates[this.updates.length - 1];
+    if (newest && newest.sequence > confirmed.sequence) {
+      this.state = _State.reloading;
+      this.data = newest.value;
+    } else if (newest) {
+      this.state = withFlight(confirmed.state, Flight.busy);
+      this.data = confirmed.data;
+    } else if (confirmed.committed) {
+      this.success(confirmed.data as T);
+    } else {
+      this.state = confirmed.state;
+      this.data = confirmed.data;
+    }
+  }
+
+  @boundAction
+  protected startAttempt(attempt: number): void {
+    this.currentAttempt = attempt;
+    this.retryAt = undefined;
+  }
+
+  @boundAction
+  protected scheduleRetry(error: E, delay: number): void {
+    this.state = _State.retrying;
+    this.data = error;
+    this.retryAt = Date.now() + delay;
+  }
+
+  protected settleRetries(): void {
+    this.currentAttempt = 0;
+    this.retryAt = undefined;
+  }
+
+  /**
+   * Accepts the promise produced by the given factory, but only if this
+   * Loadable is stale and not already loading. See `isStale`.
+   * @param factory A promise factory, invoked only when a refresh is needed
+   * @param options Options that customize how the promise is accepted
+   * @returns This, enabling chaining.
+   */
+  @boundAction
+  refreshIfStale(
+    factory: (signal: AbortSignal) => PromiseLike<T>,
+    options?: Future.AcceptOptions<T, E>,
+  ): this {
+    if (this.isStale && !this.isLoading) {
+      this.accept(factory, options);
+    }
+    return this;
+  }
+
+  protected touch(): void {
+    this.lastUpdate = Date.now();
+    this.expired = false;
+    this.clearExpiry();
+    if (this.staleTime > 0 && this.staleTime < Infinity) {
+      this.expiry = setTimeout(this.expire, this.staleTime);
+    }
+  }
+
+  @boundAction
+  protected expire(): void {
+    this.expiry = undefined;
+    this.expired = true;
+  }
+
+  protected clearExpiry(): void {
+    if (this.expiry !== undefined) {
+      clearTimeout(this.expiry);
+      this.expiry = undefined;
+    }
+  }
+
   /**
    * Returns this Loadable's success value if it is a success or a reloading,
    * or the provided default value if it is not.
@@ -183,7 +682,7 @@ export class Loadable<T> implements Future<T> {
    * @param defaultValue A possibly lazy value to use in case of non-error
    * @returns this Loadable's error or the provided default error
    */
-  failureOr<U>(defaultValue: Lazy<U>): Error | U {
+  failureOr<U>(defaultValue: Lazy<U>): E | U {
     return failureOr(this, defaultValue);
   }
 
@@ -200,8 +699,14 @@ export class Loadable<T> implements Future<T> {
    * to the state
    * @returns A derived ReadonlyLoadable
    */
-  derive<U>(options: Loadable.DeriveOptions<T, U>): ReadonlyLoadable<U> {
-    return derive(this, options);
+  derive<U>(
+    options: Loadable.DeriveOptions.AtLeastFailure<T, U, E>,
+  ): ReadonlyLoadable<U, Error>;
+  derive<U>(options: Loadable.DeriveOptions<T, U, E>): ReadonlyLoadable<U, E>;
+  derive<U>(
+    options: Loadable.DeriveOptions<T, U, E>,
+  ): ReadonlyLoadable<U, Error> {
+    return derive<T, U, E, Error>(this, options);
   }
 
   /**
@@ -212,10 +717,14 @@ export class Loadable<T> implements Future<T> {
    *
    * This is a shorthand of calling `derive` with only a `success` function.
    * @param f The success transformation function
+   * @param options Options that customize the derivation
    * @returns A derived ReadonlyFuture
    */
-  map<U>(f: (value: T) => U): ReadonlyLoadable<U> {
-    return map(this, f);
+  map<U>(
+    f: (value: T) => U,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyLoadable<U, E> {
+    return map(this, f, options);
   }
 
   /**
@@ -227,10 +736,92 @@ export class Loadable<T> implements Future<T> {
    *
    * This is a shorthand of calling `derive` with only a `failure` function.
    * @param f The failure transformation function
+   * @param options Options that customize the derivation
    * @returns A derived ReadonlyFuture
    */
-  rescue<U = T>(f: (error: Error) => U): ReadonlyLoadable<U> {
-    return rescue(this, f);
+  rescue<U = T>(
+    f: (error: E) => U,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyLoadable<U> {
+    return rescue<T, U, E>(this, f, options);
+  }
+
+  /**
+   * Creates a derived ReadonlyLoadable that syncs with the Loadable returned by
+   * the provided function `f`, which is invoked with each new success value of
+   * this Loadable. When `f` returns a promise instead, it is accepted into the
+   * derivation. Results made for earlier values are discarded. When `f` throws,
+   * the derivation becomes a failure. The derivation is loading whenever either
+   * this Loadable or the one returned by `f` is.
+   *
+   * Otherwise, the derivation mirrors this Loadable.
+   * @param f The function producing a Loadable or a promise
+   * @param options Options that customize the derivation
+   * @returns A derived ReadonlyLoadable
+   */
+  flatMap<U>(
+    f: (value: T) => ReadonlyLoadable<U, E> | PromiseLike<U>,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyLoadable<U, E> {
+    return flatMap(this, f, options);
+  }
+
+  /**
+   * Waits for this Loadable to be settled, meaning that it has a value or an
+   * error and is no longer loading. Waiting can be cut short with the
+   * `timeoutMs` and `signal` options.
+   * @param options Options that limit how long to wait
+   * @returns A promise of this Loadable
+   */
+  whenSettled(options?: Future.WaitOptions): Promise<this> {
+    return whenSettled(this, () => !this.isPending && !this.isLoading, options);
+  }
+
+  /**
+   * Waits for this Loadable to be settled, like `whenSettled`, and then
+   * resolves with its success value, or rejects with its error.
+   * @param options Options that limit how long to wait
+   * @returns A promise of this Loadable's success value
+   */
+  toPromise(options?: Future.WaitOptions): Promise<T> {
+    return toPromise(this, () => !this.isPending && !this.isLoading, options);
+  }
+
+  /**
+   * Iterates over the snapshots of this Loadable each time it is settled,
+   * starting with the current one if it already is, so that its transitions
+   * can be consumed with `for await` outside of MobX reactions.
+   * @returns An async iterator of snapshots
+   */
+  [Symbol.asyncIterator](): AsyncIterableIterator<Loadable.Snapshot<T, E>> {
+    return transitions<T, _State, E>(
+      () => !this.isPending && !this.isLoading,
+      () => ({state: this.state, data: this.data}),
+    );
+  }
+
+  /**
+   * Invokes the given listener whenever this Loadable transitions from one
+   * state to another, with both states and the data of the new state.
+   * @param listener The function to invoke on each transition
+   * @returns A function that stops listening
+   */
+  onTransition(listener: Loadable.TransitionListener<T, E>): () => void {
+    return onTransition<T, _State, E>(
+      () => ({state: this.state, data: this.data}),
+      listener,
+    );
+  }
+
+  /**
+   * Disposes every ReadonlyLoadable derived from this Loadable, which in turn
+   * disposes their own derivations, and cancels the accepted promise, if any,
+   * without changing state.
+   */
+  dispose(): void {
+    cancel(this);
+    this.clearExpiry();
+    dispose(this);
   }
 }
 
@@ -246,6 +837,35 @@ export namespace Loadable {
    */
   export type State = _State;
 
+  /**
+   * Snapshot is a plain copy of the state of a Loadable and the data, if any,
+   * that comes with it.
+   */
+  export type Snapshot<T, E extends Error = Error> = _Snapshot<T, State, E>;
+
+  /**
+   * Options customizes a Loadable. The `name` is used by MobX for the Loadable
+   * and its properties and actions. The `initial` snapshot sets the state and
+   * data to start with. The `equals` function decides whether a new success
+   * value is the same as the current one, in which case the current one is
+   * kept and observers are not notified; by default, values are compared by
+   * identity.
+   */
+  export interface Options<T = any, E extends Error = Error> {
+    name?: string;
+    initial?: Snapshot<T, E>;
+    equals?: (a: T, b: T) => boolean;
+  }
+
+  /**
+   * TransitionListener is invoked with the previous state, the new state and
+   * the data of the new state whenever a Loadable transitions.
+   */
+  export type TransitionListener<
+    T,
+    E extends Error = Error
+  > = _TransitionListener<T, State, E>;
+
   /**
    * MatchOptions is an object filled with callbacks. Each callback corresponds
    * to a possible availability. The `success` callback receives whatever
@@ -255,44 +875,80 @@ export namespace Loadable {
    * All three callbacks take an additional `loading` boolean, which reflects
    * the flight of the state. It is true when busy, or false when idle.
    */
-  export interface MatchOptions<T, A, B, C> {
+  export interface MatchOptions<T, A, B, C, E extends Error = Error> {
     success: (data: T, loading: boolean) => A;
-    failure: (error: Error, loading: boolean) => B;
+    failure: (error: E, loading: boolean) => B;
     pending: (loading: boolean) => C;
   }
 
+  /**
+   * RetryPolicy customizes `retry`. Up to `attempts` attempts are made, 3 by
+   * default. The delay before the n-th retry is `delay * factor ^ (n - 1)`
+   * milliseconds, 1000 and 2 by default, capped at `maxDelay`, and then reduced
+   * by a random fraction of at most `jitter`, 0.5 by default. The `retryable`
+   * predicate decides which errors are worth another attempt; by default, all
+   * of them are.
+   */
+  export interface RetryPolicy<T, E extends Error = Error>
+    extends Future.AcceptOptions<T, E> {
+    attempts?: number;
+    delay?: number;
+    factor?: number;
+    maxDelay?: number;
+    jitter?: number;
+    retryable?: (error: E, attempt: number) => boolean;
+  }
+
+  /**
+   * PollOptions customizes `poll`. A promise is accepted every `intervalMs`
+   * milliseconds. With `pauseWhenUnobserved`, polling pauses while no MobX
+   * derivation observes the Loadable, and resumes right away once one does.
+   * Polling stops for good once the `stopWhen` predicate holds for the value
+   * of the Loadable, which is checked before each interval.
+   */
+  export interface PollOptions<T, E extends Error = Error>
+    extends Future.AcceptOptions<T, E> {
+    intervalMs: number;
+    pauseWhenUnobserved?: boolean;
+    stopWhen?: (value: T) => boolean;
+  }
+
   /**
    * DeriveOptions is similar to MatchOptions, except only one callback is
    * required. The return value of any callback is accordingly re-wrapped in
-   * another Loadable.
+   * another Loadable. The options of the derivation itself can be given along
+   * with the callbacks.
    */
-  export type DeriveOptions<From, To> =
-    | DeriveOptions.AtLeastSuccess<From, To>
-    | DeriveOptions.AtLeastFailure<From, To>
-    | DeriveOptions.AtLeastPending<From, To>;
+  export type DeriveOptions<From, To, E extends Error = Error> =
+    | DeriveOptions.AtLeastSuccess<From, To, E>
+    | DeriveOptions.AtLeastFailure<From, To, E>
+    | DeriveOptions.AtLeastPending<From, To, E>;
 
   export namespace DeriveOptions {
-    export interface AtLeastSuccess<From, To> {
+    export interface AtLeastSuccess<From, To, E extends Error = Error>
+      extends Future.DerivationOptions<To> {
       success: (data: From, loading: boolean) => To;
-      failure?: (error: Error, loading: boolean) => To;
+      failure?: (error: E, loading: boolean) => To;
       pending?: (loading: boolean) => To;
     }
 
-    export interface AtLeastFailure<From, To> {
+    export interface AtLeastFailure<From, To, E extends Error = Error>
+      extends Future.DerivationOptions<To> {
       success?: (data: From, loading: boolean) => To;
-      failure: (error: Error, loading: boolean) => To;
+      failure: (error: E, loading: boolean) => To;
       pending?: (loading: boolean) => To;
     }
 
-    export interface AtLeastPending<From, To> {
+    export interface AtLeastPending<From, To, E extends Error = Error>
+      extends Future.DerivationOptions<To> {
       success?: (data: From, loading: boolean) => To;
-      failure?: (error: Error, loading: boolean) => To;
+      failure?: (error: E, loading: boolean) => To;
       pending: (loading: boolean) => To;
     }
   }
 }
 
-export interface ReadonlyLoadable<T> {
+export interface ReadonlyLoadable<T, E extends Error = Error> {
   /**
    * Indicates if this Loadable is a success or reloading.
    */
@@ -320,7 +976,7 @@ export interface ReadonlyLoadable<T> {
    * @param options An object of callbacks to be invoked according to the state.
    * @returns The return value of whichever callback was selected.
    */
-  match<A, B, C>(options: Loadable.MatchOptions<T, A, B, C>): A | B | C;
+  match<A, B, C>(options: Loadable.MatchOptions<T, A, B, C, E>): A | B | C;
 
   /**
    * Returns this Loadable's success value if it is a success or a reloading,
@@ -336,7 +992,7 @@ export interface ReadonlyLoadable<T> {
    * @param defaultValue A possibly lazy value to use in case of non-error
    * @returns this Loadable's error or the provided default error
    */
-  failureOr<U>(defaultValue: Lazy<U>): Error | U;
+  failureOr<U>(defaultValue: Lazy<U>): E | U;
 
   /**
    * Derives a ReadonlyLoadable that syncs with this Loadable using the given
@@ -351,7 +1007,10 @@ export interface ReadonlyLoadable<T> {
    * to the state
    * @returns A derived ReadonlyLoadable
    */
-  derive<U>(options: Loadable.DeriveOptions<T, U>): ReadonlyLoadable<U>;
+  derive<U>(
+    options: Loadable.DeriveOptions.AtLeastFailure<T, U, E>,
+  ): ReadonlyLoadable<U, Error>;
+  derive<U>(options: Loadable.DeriveOptions<T, U, E>): ReadonlyLoadable<U, E>;
 
   /**
    * Creates a derived ReadonlyLoadable that syncs with this Loadable, except
@@ -361,9 +1020,13 @@ export interface ReadonlyLoadable<T> {
    *
    * This is a shorthand of calling `derive` with only a `success` function.
    * @param f The success transformation function
+   * @param options Options that customize the derivation
    * @returns A derived ReadonlyFuture
    */
-  map<U>(f: (value: T) => U): ReadonlyLoadable<U>;
+  map<U>(
+    f: (value: T) => U,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyLoadable<U, E>;
 
   /**
    * Creates a derived ReadonlyLoadable that syncs with this Loadable, except
@@ -374,9 +1037,63 @@ export interface ReadonlyLoadable<T> {
    *
    * This is a shorthand of calling `derive` with only a `failure` function.
    * @param f The failure transformation function
+   * @param options Options that customize the derivation
    * @returns A derived ReadonlyFuture
    */
-  rescue<U = T>(f: (error: Error) => U): ReadonlyLoadable<U>;
+  rescue<U = T>(
+    f: (error: E) => U,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyLoadable<U>;
+
+  /**
+   * Creates a derived ReadonlyLoadable that syncs with the Loadable returned by
+   * the provided function `f`, which is invoked with each new success value of
+   * this Loadable. When `f` returns a promise instead, it is accepted into the
+   * derivation. Results made for earlier values are discarded. When `f` throws,
+   * the derivation becomes a failure. The derivation is loading whenever either
+   * this Loadable or the one returned by `f` is.
+   *
+   * Otherwise, the derivation mirrors this Loadable.
+   * @param f The function producing a Loadable or a promise
+   * @param options Options that customize the derivation
+   * @returns A derived ReadonlyLoadable
+   */
+  flatMap<U>(
+    f: (value: T) => ReadonlyLoadable<U, E> | PromiseLike<U>,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyLoadable<U, E>;
+
+  /**
+   * Waits for this Loadable to be settled, meaning that it has a value or an
+   * error and is no longer loading. Waiting can be cut short with the
+   * `timeoutMs` and `signal` options.
+   * @param options Options that limit how long to wait
+   * @returns A promise of this Loadable
+   */
+  whenSettled(options?: Future.WaitOptions): Promise<this>;
+
+  /**
+   * Waits for this Loadable to be settled, like `whenSettled`, and then
+   * resolves with its success value, or rejects with its error.
+   * @param options Options that limit how long to wait
+   * @returns A promise of this Loadable's success value
+   */
+  toPromise(options?: Future.WaitOptions): Promise<T>;
+
+  /**
+   * Invokes the given listener whenever this Loadable transitions from one
+   * state to another, with both states and the data of the new state.
+   * @param listener The function to invoke on each transition
+   * @returns A function that stops listening
+   */
+  onTransition(listener: Loadable.TransitionListener<T, E>): () => void;
+
+  /**
+   * Disposes every ReadonlyLoadable derived from this Loadable, which in turn
+   * disposes their own derivations. A disposed derivation stops syncing and
+   * keeps its last state.
+   */
+  dispose(): void;
 }
 
 /**
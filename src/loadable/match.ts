@@ -1,10 +1,10 @@
 import {Loadable} from '.';
 
-export function match<T, A, B, C>(
+export function match<T, A, B, C, E extends Error>(
   state: Loadable.State,
-  data: T | Error | undefined,
+  data: T | E | undefined,
   isLoading: boolean,
-  options: Loadable.MatchOptions<T, A, B, C>,
+  options: Loadable.MatchOptions<T, A, B, C, E>,
 ): A | B | C {
   const {success, failure, pending} = options;
 
@@ -18,7 +18,7 @@ export function match<T, A, B, C>(
       return success(data as T, isLoading);
     case Loadable.State.failure:
     case Loadable.State.retrying:
-      return failure(data as Error, isLoading);
+      return failure(data as E, isLoading);
     case Loadable.State.empty:
     case Loadable.State.pending:
       return pending(isLoading);
@@ -0,0 +1,177 @@
+import {expose} from '../internal';
+import {Deferred, deferred, settled} from '../test-utils';
+import {PagedLoadable} from './paged';
+import {State} from './state';
+
+describe('PagedLoadable', () => {
+  const failureValue = new Error();
+
+  type Page = PagedLoadable.Page<string, number>;
+
+  interface Request extends Deferred<Page> {
+    cursor: number | undefined;
+    signal: AbortSignal;
+  }
+
+  function make() {
+    const requests: Request[] = [];
+    const pages = new PagedLoadable<string, number>((cursor, signal) => {
+      const request = {cursor, signal, ...deferred<Page>()};
+      requests.push(request);
+      return request.promise;
+    });
+    const last = () => requests[requests.length - 1];
+    return {pages: expose(pages), requests, last};
+  }
+
+  describe('constructor', () => {
+    it('initializes as empty with more to fetch', () => {
+      const {pages} = make();
+
+      expect(pages.state).toEqual(State.empty);
+      expect(pages.items).toEqual([]);
+      expect(pages.hasMore).toBe(true);
+    });
+  });
+
+  describe('refresh', () => {
+    it('fetches the first page', async () => {
+      const {pages, last} = make();
+      pages.refresh();
+
+      expect(last().cursor).toBeUndefined();
+      expect(pages.isRefreshing).toBe(true);
+      last().resolve({items: ['a', 'b'], next: 2});
+      await settled();
+
+      expect(pages.state).toEqual(State.success);
+      expect(pages.items).toEqual(['a', 'b']);
+      expect(pages.nextCursor).toBe(2);
+      expect(pages.isRefreshing).toBe(false);
+    });
+
+    it('replaces every item while keeping them until then', async () => {
+      const {pages, last} = make();
+      pages.refresh();
+      last().resolve({items: ['a'], next: 1});
+      await settled();
+      pages.loadMore();
+      last().resolve({items: ['b'], next: 2});
+      await settled();
+
+      pages.refresh();
+      expect(pages.state).toEqual(State.reloading);
+      expect(pages.items).toEqual(['a', 'b']);
+      last().resolve({items: ['c'], next: 1});
+      await settled();
+
+      expect(pages.items).toEqual(['c']);
+    });
+
+    it('supersedes the next page being fetched', async () => {
+      const {pages, requests, last} = make();
+      pages.refresh();
+      last().resolve({items: ['a'], next: 1});
+      await settled();
+      pages.loadMore();
+      pages.refresh();
+
+      expect(requests[1].signal.aborted).toBe(true);
+      expect(pages.isLoadingMore).toBe(false);
+      expect(pages.isRefreshing).toBe(true);
+    });
+
+    it('fails when the first page cannot be fetched', async () => {
+      const {pages, last} = make();
+      pages.refresh();
+      last().reject(failureValue);
+      await settled();
+
+      expect(pages.state).toEqual(State.failure);
+      expect(pages.data).toBe(failureValue);
+    });
+  });
+
+  describe('loadMore', () => {
+    it('fetches the first page when empty', () => {
+      const {pages, last} = make();
+      pages.loadMore();
+
+      expect(last().cursor).toBeUndefined();
+      expect(pages.isRefreshing).toBe(true);
+    });
+
+    it('appends the next page', async () => {
+      const {pages, last} = make();
+      pages.loadMore();
+      last().resolve({items: ['a'], next: 1});
+      await settled();
+      pages.loadMore();
+
+      expect(last().cursor).toBe(1);
+      expect(pages.isLoadingMore).toBe(true);
+      expect(pages.items).toEqual(['a']);
+      last().resolve({items: ['b']});
+      await settled();
+
+      expect(pages.items).toEqual(['a', 'b']);
+      expect(pages.hasMore).toBe(false);
+      expect(pages.isLoadingMore).toBe(false);
+    });
+
+    it('does nothing while a page is being fetched', () => {
+      const {pages, requests} = make();
+      pages.loadMore();
+      pages.loadMore();
+
+      expect(requests).toHaveLength(1);
+    });
+
+    it('does nothing once there are no more pages', async () => {
+      const {pages, requests, last} = make();
+      pages.loadMore();
+      last().resolve({items: ['a']});
+      await settled();
+      pages.loadMore();
+
+      expect(requests).toHaveLength(1);
+    });
+
+    it('keeps earlier pages when the next page fails', async () => {
+      const {pages, last} = make();
+      pages.loadMore();
+      last().resolve({items: ['a'], next: 1});
+      await settled();
+      pages.loadMore();
+      last().reject(failureValue);
+      await settled();
+
+      expect(pages.state).toEqual(State.success);
+      expect(pages.items).toEqual(['a']);
+      expect(pages.pageError).toBe(failureValue);
+      expect(pages.hasMore).toBe(true);
+
+      pages.loadMore();
+      last().resolve({items: ['b']});
+      await settled();
+
+      expect(pages.items).toEqual(['a', 'b']);
+      expect(pages.pageError).toBeUndefined();
+    });
+  });
+
+  describe('cancel', () => {
+    it('stops fetching the next page', async () => {
+      const {pages, last} = make();
+      pages.loadMore();
+      last().resolve({items: ['a'], next: 1});
+      await settled();
+      pages.loadMore();
+      pages.cancel();
+
+      expect(last().signal.aborted).toBe(true);
+      expect(pages.state).toEqual(State.success);
+      expect(pages.isLoadingMore).toBe(false);
+    });
+  });
+});
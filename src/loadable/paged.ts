@@ -0,0 +1,155 @@
+import {computed, observable} from 'mobx';
+
+import {Loadable} from '.';
+import {boundAction} from '../internal';
+
+type Direction = 'next' | 'refresh';
+
+/**
+ * PagedLoadable is a Loadable of a list that is fetched one page at a time,
+ * such as an infinite list. Its value holds every item fetched so far, along
+ * with the cursor of the next page.
+ *
+ * Pages are fetched with the `fetchPage` function. `refresh` fetches the first
+ * page, replacing every item, whereas `loadMore` fetches the next page and
+ * appends its items. While fetching, the existing items stay available.
+ *
+ * When fetching the next page fails, this PagedLoadable stays a success with
+ * the earlier pages, and the error is available as `pageError` instead.
+ */
+export class PagedLoadable<
+  Item,
+  Cursor,
+  E extends Error = Error
+> extends Loadable<PagedLoadable.Pages<Item, Cursor, E>, E> {
+  @observable protected direction: Direction | undefined = undefined;
+
+  constructor(
+    protected fetchPage: (
+      cursor: Cursor | undefined,
+      signal: AbortSignal,
+    ) => PromiseLike<PagedLoadable.Page<Item, Cursor>>,
+    options?: Loadable.Options<PagedLoadable.Pages<Item, Cursor, E>, E>,
+  ) {
+    super(options);
+  }
+
+  /**
+   * Every item fetched so far, or an empty array if there are none.
+   */
+  @computed
+  get items(): Item[] {
+    return this.pages.items;
+  }
+
+  /**
+   * The cursor of the next page, or undefined if there is none.
+   */
+  @computed
+  get nextCursor(): Cursor | undefined {
+    return this.pages.next;
+  }
+
+  /**
+   * Indicates if there is another page to fetch, which is the case until the
+   * first page has been fetched.
+   */
+  @computed
+  get hasMore(): boolean {
+    return !this.isSuccess || this.nextCursor !== undefined;
+  }
+
+  /**
+   * Indicates if the next page is being fetched.
+   */
+  @computed
+  get isLoadingMore(): boolean {
+    return this.isLoading && this.direction === 'next';
+  }
+
+  /**
+   * Indicates if the first page is being fetched again.
+   */
+  @computed
+  get isRefreshing(): boolean {
+    return this.isLoading && this.direction === 'refresh';
+  }
+
+  /**
+   * The error that fetching the next page last failed with, if any. It is
+   * cleared once a page is fetched.
+   */
+  @computed
+  get pageError(): E | undefined {
+    return this.pages.error;
+  }
+
+  @computed
+  protected get pages(): PagedLoadable.Pages<Item, Cursor, E> {
+    return this.successOr({items: []});
+  }
+
+  /**
+   * Fetches the next page and appends its items, unless there is no next page
+   * or a page is already being fetched. Before the first page is fetched, this
+   * is the same as `refresh`.
+   * @returns This, enabling chaining.
+   */
+  @boundAction
+  loadMore(): this {
+    if (!this.isSuccess) {
+      return this.isLoading ? this : this.refresh();
+    }
+    if (!this.hasMore || this.isLoading) {
+      return this;
+    }
+
+    const {items, next} = this.pages;
+    this.direction = 'next';
+    return this.accept(signal =>
+      Promise.resolve(this.fetchPage(next, signal)).then(
+        page => ({items: items.concat(page.items), next: page.next}),
+        // Earlier pages are kept, so that only the next page has failed.
+        (error: E) => ({items, next, error}),
+      ),
+    );
+  }
+
+  /**
+   * Fetches the first page and replaces every item with its items. A page
+   * being fetched is superseded.
+   * @returns This, enabling chaining.
+   */
+  @boundAction
+  refresh(): this {
+    this.direction = 'refresh';
+    return this.accept(signal =>
+      Promise.resolve(this.fetchPage(undefined, signal)).then(page => ({
+        items: page.items,
+        next: page.next,
+      })),
+    );
+  }
+}
+
+export namespace PagedLoadable {
+  /**
+   * Page is what `fetchPage` resolves with: the items of a page, and the cursor
+   * of the next page, if there is one.
+   */
+  export interface Page<Item, Cursor> {
+    items: Item[];
+    next?: Cursor;
+  }
+
+  /**
+   * Pages is the value of a PagedLoadable: every item fetched so far, the
+   * cursor of the next page, if there is one, and the error that fetching the
+   * next page failed with, if it did.
+   */
+  export interface Pages<Item, Cursor, E extends Error = Error> {
+    items: Item[];
+    next?: Cursor;
+    error?: E;
+  }
+}
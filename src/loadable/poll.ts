@@ -0,0 +1,82 @@
+import {getObserverTree, onBecomeObserved, onBecomeUnobserved} from 'mobx';
+
+import {Loadable} from '.';
+
+/**
+ * Indicates if any MobX derivation observes the state of the given Loadable.
+ */
+function isObserved<T, E extends Error>(loadable: Loadable<T, E>): boolean {
+  const {observers} = getObserverTree(loadable, 'state');
+  return !!observers && observers.length > 0;
+}
+
+/**
+ * Accepts the promises produced by the given factory into the given Loadable
+ * every `intervalMs` milliseconds, starting right away. An interval is skipped
+ * while the Loadable is still loading.
+ * @returns A disposer that stops polling
+ */
+export function polling<T, E extends Error>(
+  loadable: Loadable<T, E>,
+  factory: (signal: AbortSignal) => PromiseLike<T>,
+  options: Loadable.PollOptions<T, E>,
+): () => void {
+  const {intervalMs, pauseWhenUnobserved = false, stopWhen, ...rest} = options;
+  let interval: ReturnType<typeof setInterval> | undefined;
+  let stopped = false;
+  const listeners: Array<() => void> = [];
+
+  const tick = () => {
+    if (loadable.isLoading) {
+      return;
+    }
+    if (stopWhen && loadable.isSuccess) {
+      if (stopWhen(loadable.successOr(undefined as never))) {
+        return stop();
+      }
+    }
+    loadable.accept(factory, rest);
+  };
+
+  const resume = () => {
+    if (stopped || interval !== undefined) {
+      return;
+    }
+    interval = setInterval(tick, intervalMs);
+    tick();
+  };
+
+  const pause = () => {
+    if (interval !== undefined) {
+      clearInterval(interval);
+      interval = undefined;
+    }
+  };
+
+  const stop = () => {
+    stopped = true;
+    pause();
+    listeners.splice(0).forEach(dispose => dispose());
+  };
+
+  if (pauseWhenUnobserved) {
+    // Observation starts while a derivation runs, which must not change
+    // state, so polling resumes only once that derivation is done.
+    const observed = () =>
+      setTimeout(() => {
+        if (isObserved(loadable)) {
+          resume();
+        }
+      }, 0);
+    listeners.push(
+      onBecomeObserved(loadable, 'state', observed),
+      onBecomeUnobserved(loadable, 'state', pause),
+    );
+    if (isObserved(loadable)) {
+      resume();
+    }
+  } else {
+    resume();
+  }
+  return stop;
+}
@@ -0,0 +1,27 @@
+import {backoff} from './retry';
+
+describe('backoff', () => {
+  it('grows exponentially', () => {
+    const policy = {delay: 100, factor: 3, jitter: 0};
+
+    expect(backoff(policy, 1)).toBe(100);
+    expect(backoff(policy, 2)).toBe(300);
+    expect(backoff(policy, 3)).toBe(900);
+  });
+
+  it('is capped at the maximum delay', () => {
+    const policy = {delay: 100, maxDelay: 250, jitter: 0};
+
+    expect(backoff(policy, 3)).toBe(250);
+  });
+
+  it('is reduced by at most the jitter', () => {
+    const policy = {delay: 100, jitter: 0.5};
+
+    for (let i = 0; i < 10; i++) {
+      const delay = backoff(policy, 1);
+      expect(delay).toBeGreaterThan(50);
+      expect(delay).toBeLessThanOrEqual(100);
+    }
+  });
+});
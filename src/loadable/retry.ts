@@ -0,0 +1,82 @@
+import {Loadable} from '.';
+
+/**
+ * Computes how long to wait, in milliseconds, before the attempt following the
+ * given one. The delay grows exponentially and is then reduced by a random
+ * fraction of at most `jitter`.
+ * @param policy The retry policy
+ * @param attempt The number of the attempt that just failed, starting at 1
+ */
+export function backoff<T, E extends Error>(
+  policy: Loadable.RetryPolicy<T, E>,
+  attempt: number,
+): number {
+  const {delay = 1000, factor = 2, maxDelay = Infinity, jitter = 0.5} = policy;
+  const ms = Math.min(maxDelay, delay * Math.pow(factor, attempt - 1));
+  return ms * (1 - jitter * Math.random());
+}
+
+/**
+ * Resolves after the given delay, or rejects as soon as the given signal is
+ * aborted.
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timeout);
+      reject(new Error('Aborted'));
+    };
+    const timeout = setTimeout(() => {
+      signal.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', abort);
+  });
+}
+
+export interface RetryListener<E extends Error> {
+  /**
+   * Invoked right before each attempt starts.
+   */
+  attempt: (attempt: number) => void;
+
+  /**
+   * Invoked when an attempt failed and another one is scheduled after `delay`
+   * milliseconds.
+   */
+  retry: (error: E, delay: number) => void;
+}
+
+/**
+ * Invokes the given factory until the promise it produces is fulfilled, or
+ * until the policy decides to give up, in which case the last rejection reason
+ * is thrown as-is, to be mapped by whoever accepts the result. Retries stop as
+ * soon as the given signal is aborted.
+ */
+export function retrying<T, E extends Error>(
+  factory: (signal: AbortSignal) => PromiseLike<T>,
+  policy: Loadable.RetryPolicy<T, E>,
+  signal: AbortSignal,
+  listener: RetryListener<E>,
+): Promise<T> {
+  const {
+    attempts = 3,
+    mapError = (reason: any) => reason as E,
+    retryable = () => true,
+  } = policy;
+
+  const run = (attempt: number): Promise<T> => {
+    listener.attempt(attempt);
+    return Promise.resolve(factory(signal)).then(undefined, reason => {
+      const error = mapError(reason);
+      if (signal.aborted || attempt >= attempts || !retryable(error, attempt)) {
+        throw reason;
+      }
+      const delay = backoff(policy, attempt);
+      listener.retry(error, delay);
+      return sleep(delay, signal).then(() => run(attempt + 1));
+    });
+  };
+
+  return run(1);
+}
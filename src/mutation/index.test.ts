@@ -0,0 +1,257 @@
+import {getObserverTree} from 'mobx';
+
+import {Mutation} from '.';
+import {CancellationError} from '../errors';
+import {Deferred, deferred, settled} from '../test-utils';
+
+describe('Mutation', () => {
+  interface Call extends Deferred<number> {
+    args: string;
+    signal: AbortSignal;
+  }
+
+  const failureValue = new Error();
+
+  function make(options?: Mutation.Options<number>) {
+    const calls: Call[] = [];
+    const mutation = new Mutation<[string], number>(([args], signal) => {
+      const call = {args, signal, ...deferred<number>()};
+      calls.push(call);
+      return call.promise;
+    }, options);
+    return {mutation, calls};
+  }
+
+  describe('constructor', () => {
+    it('initializes as idle', () => {
+      const {mutation} = make();
+
+      expect(mutation.isIdle).toBe(true);
+      expect(mutation.isRunning).toBe(false);
+      expect(mutation.isPending).toBe(true);
+    });
+  });
+
+  describe('run', () => {
+    it('runs the operation with the given arguments', () => {
+      const {mutation, calls} = make();
+      mutation.run('foo');
+
+      expect(calls.map(call => call.args)).toEqual(['foo']);
+      expect(mutation.isIdle).toBe(false);
+      expect(mutation.isRunning).toBe(true);
+      expect(mutation.args).toEqual(['foo']);
+    });
+
+    it('passes every argument along', () => {
+      const operation = jest.fn(() => deferred<void>().promise);
+      const mutation = new Mutation<[number, string], void>(operation);
+      mutation.run(1, 'foo');
+
+      expect(operation).toHaveBeenCalledWith([1, 'foo'], expect.anything());
+      expect(mutation.args).toEqual([1, 'foo']);
+    });
+
+    it('keeps the result once the operation succeeds', async () => {
+      const {mutation, calls} = make();
+      mutation.run('foo');
+      calls[0].resolve(1);
+      await settled();
+
+      expect(mutation.isSuccess).toBe(true);
+      expect(mutation.isRunning).toBe(false);
+      expect(mutation.result).toBe(1);
+    });
+
+    it('keeps the error once the operation fails', async () => {
+      const {mutation, calls} = make();
+      mutation.run('foo');
+      calls[0].reject(failureValue);
+      await settled();
+
+      expect(mutation.isFailure).toBe(true);
+      expect(mutation.error).toBe(failureValue);
+    });
+
+    it('keeps the last result while running again', async () => {
+      const {mutation, calls} = make();
+      mutation.run('foo');
+      calls[0].resolve(1);
+      await settled();
+      mutation.run('bar');
+
+      expect(mutation.isRunning).toBe(true);
+      expect(mutation.result).toBe(1);
+      expect(mutation.args).toEqual(['bar']);
+    });
+
+    it('drops calls while running by default', () => {
+      const {mutation, calls} = make();
+      mutation.run('foo');
+      mutation.run('bar');
+
+      expect(calls).toHaveLength(1);
+      expect(mutation.args).toEqual(['foo']);
+    });
+
+    it('queues calls while running in queue mode', async () => {
+      const {mutation, calls} = make({
+        concurrency: Mutation.Concurrency.queue,
+      });
+      mutation.run('foo');
+      mutation.run('bar');
+      mutation.run('baz');
+      expect(calls).toHaveLength(1);
+
+      calls[0].resolve(1);
+      await settled();
+      expect(calls.map(call => call.args)).toEqual(['foo', 'bar']);
+      expect(mutation.result).toBe(1);
+      expect(mutation.isRunning).toBe(true);
+
+      calls[1].reject(failureValue);
+      await settled();
+      calls[2].resolve(3);
+      await settled();
+      expect(calls.map(call => call.args)).toEqual(['foo', 'bar', 'baz']);
+      expect(mutation.result).toBe(3);
+      expect(mutation.error).toBeUndefined();
+    });
+
+    it('supersedes the running operation in supersede mode', async () => {
+      const {mutation, calls} = make({
+        concurrency: Mutation.Concurrency.supersede,
+      });
+      mutation.run('foo');
+      mutation.run('bar');
+      expect(calls[0].signal.aborted).toBe(true);
+
+      calls[0].resolve(1);
+      calls[1].resolve(2);
+      await settled();
+      expect(mutation.result).toBe(2);
+    });
+  });
+
+  describe('cancel', () => {
+    it('fails the running operation and drops queued calls', async () => {
+      const {mutation, calls} = make({
+        concurrency: Mutation.Concurrency.queue,
+      });
+      mutation.run('foo');
+      mutation.run('bar');
+      mutation.cancel();
+      await settled();
+
+      expect(calls).toHaveLength(1);
+      expect(calls[0].signal.aborted).toBe(true);
+      expect(mutation.error).toBeInstanceOf(CancellationError);
+    });
+
+    it('does nothing unless running', async () => {
+      const {mutation, calls} = make();
+      mutation.cancel();
+      expect(mutation.isIdle).toBe(true);
+      expect(mutation.isPending).toBe(true);
+
+      mutation.run('foo');
+      calls[0].resolve(1);
+      await settled();
+      mutation.cancel();
+
+      expect(mutation.isSuccess).toBe(true);
+      expect(mutation.error).toBeUndefined();
+    });
+  });
+
+  describe('reset', () => {
+    it('goes back to idle', async () => {
+      const {mutation, calls} = make();
+      mutation.run('foo');
+      calls[0].resolve(1);
+      await settled();
+      mutation.reset();
+
+      expect(mutation.isIdle).toBe(true);
+      expect(mutation.isPending).toBe(true);
+      expect(mutation.args).toBeUndefined();
+      expect(mutation.result).toBeUndefined();
+    });
+
+    it('stops the running operation from settling', async () => {
+      const {mutation, calls} = make();
+      mutation.run('foo');
+      mutation.reset();
+      calls[0].resolve(1);
+      await settled();
+
+      expect(calls[0].signal.aborted).toBe(true);
+      expect(mutation.isIdle).toBe(true);
+      expect(mutation.result).toBeUndefined();
+    });
+  });
+
+  describe('dispose', () => {
+    it('stops waiting for the running operation to settle', () => {
+      const {mutation} = make();
+      mutation.run('foo');
+      mutation.dispose();
+      const failable = (mutation as any).failable;
+
+      expect(getObserverTree(failable, 'state').observers).toBeUndefined();
+    });
+  });
+
+  describe('match', () => {
+    const options = {
+      success: (result: number) => `success ${result}`,
+      failure: () => 'failure',
+      pending: () => 'pending',
+    };
+
+    it('invokes the idle callback when idle', () => {
+      const {mutation} = make();
+
+      expect(mutation.match({...options, idle: () => 'idle'})).toBe('idle');
+    });
+
+    it('falls back to the pending callback when idle', () => {
+      const {mutation} = make();
+
+      expect(mutation.match(options)).toBe('pending');
+    });
+
+    it('matches the state of the operation', async () => {
+      const {mutation, calls} = make();
+      mutation.run('foo');
+      expect(mutation.match({...options, idle: () => 'idle'})).toBe('pending');
+
+      calls[0].resolve(1);
+      await settled();
+      expect(mutation.match(options)).toBe('success 1');
+    });
+  });
+
+  describe('map', () => {
+    it('derives from the result', async () => {
+      const {mutation, calls} = make();
+      const doubled = mutation.map(result => result * 2);
+      mutation.run('foo');
+      calls[0].resolve(2);
+      await settled();
+
+      expect(doubled.successOr(undefined)).toBe(4);
+    });
+  });
+
+  describe('toPromise', () => {
+    it('resolves with the result of the next run', () => {
+      const {mutation, calls} = make();
+      const promise = mutation.toPromise();
+      mutation.run('foo');
+      calls[0].resolve(1);
+
+      return expect(promise).resolves.toBe(1);
+    });
+  });
+});
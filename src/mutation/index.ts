@@ -0,0 +1,367 @@
+import {computed, IReactionDisposer, observable, when} from 'mobx';
+import {Enum} from 'typescript-string-enums';
+
+import {cancel, toPromise, whenSettled} from '../extensions';
+import {Failable} from '../failable';
+import {Future, ReadonlyFuture} from '../future';
+import {boundAction} from '../internal';
+import {Lazy} from '../lazy';
+
+/**
+ * Mutation wraps an asynchronous write operation, such as a form submission.
+ * Each call to `run` invokes the operation with the given arguments, as the
+ * tuple `Args`, and its promise is accepted into an internal Failable, which
+ * every read-only method delegates to.
+ *
+ * Unlike a Failable, a Mutation starts out idle, which is distinct from
+ * pending, and can be reset back to idle. What happens when `run` is called
+ * while the operation is still running depends on the concurrency mode. See
+ * `Mutation.Concurrency` for more details.
+ */
+export class Mutation<Args extends any[], Result, E extends Error = Error>
+  implements ReadonlyFuture<Result, E> {
+  protected failable = new Failable<Result, E>();
+  @observable protected started: boolean = false;
+  @observable protected lastArgs: Args | undefined = undefined;
+  @observable protected lastResult: Result | undefined = undefined;
+  @observable protected lastError: E | undefined = undefined;
+  protected queue: Args[] = [];
+  protected settling: IReactionDisposer | undefined;
+
+  constructor(
+    protected operation: (
+      args: Args,
+      signal: AbortSignal,
+    ) => PromiseLike<Result>,
+    protected options: Mutation.Options<Result, E> = {},
+  ) {}
+
+  toString(): string {
+    return `Mutation { idle=${this.isIdle}, failable=${this.failable} }`;
+  }
+
+  /**
+   * Indicates if this Mutation has not run since it was created or reset.
+   */
+  @computed
+  get isIdle(): boolean {
+    return !this.started;
+  }
+
+  /**
+   * Indicates if the operation is running.
+   */
+  @computed
+  get isRunning(): boolean {
+    return this.started && this.failable.isPending;
+  }
+
+  /**
+   * Indicates if the operation last succeeded.
+   */
+  @computed
+  get isSuccess(): boolean {
+    return this.failable.isSuccess;
+  }
+
+  /**
+   * Indicates if the operation last failed.
+   */
+  @computed
+  get isFailure(): boolean {
+    return this.failable.isFailure;
+  }
+
+  /**
+   * Indicates if this Mutation is idle or running.
+   */
+  @computed
+  get isPending(): boolean {
+    return this.failable.isPending;
+  }
+
+  /**
+   * The arguments that the operation was last run with.
+   */
+  @computed
+  get args(): Args | undefined {
+    return this.lastArgs;
+  }
+
+  /**
+   * The result that the operation last succeeded with, which is kept while it
+   * runs again.
+   */
+  @computed
+  get result(): Result | undefined {
+    return this.lastResult;
+  }
+
+  /**
+   * The error that the operation last failed with, which is kept while it runs
+   * again, and cleared once it succeeds.
+   */
+  @computed
+  get error(): E | undefined {
+    return this.lastError;
+  }
+
+  /**
+   * Runs the operation with the given arguments, unless it is already running
+   * and the concurrency mode says otherwise.
+   * @param args The arguments of the operation
+   * @returns This, enabling chaining.
+   */
+  @boundAction
+  run(...args: Args): this {
+    const {concurrency = Mutation.Concurrency.drop} = this.options;
+    if (this.isRunning && concurrency === Mutation.Concurrency.drop) {
+      return this;
+    }
+    if (this.isRunning && concurrency === Mutation.Concurrency.queue) {
+      this.queue.push(args);
+      return this;
+    }
+    this.start(args);
+    return this;
+  }
+
+  protected start(args: Args): void {
+    const {concurrency: _, ...options} = this.options;
+    this.started = true;
+    this.lastArgs = args;
+    this.failable.accept(signal => this.operation(args, signal), options);
+
+    this.stopSettling();
+    this.settling = when(() => !this.failable.isPending, this.settle);
+  }
+
+  @boundAction
+  protected settle(): void {
+    this.settling = undefined;
+    this.failable.match({
+      success: result => {
+        this.lastResult = result;
+        this.lastError = undefined;
+      },
+      failure: error => {
+        this.lastError = error;
+      },
+      pending: () => undefined,
+    });
+    if (this.queue.length > 0) {
+      this.start(this.queue.shift()!);
+    }
+  }
+
+  protected stopSettling(): void {
+    if (this.settling) {
+      this.settling();
+      this.settling = undefined;
+    }
+  }
+
+  /**
+   * Cancels the running operation, if any, which fails with a
+   * `CancellationError`, along with every queued call. Otherwise, nothing
+   * happens.
+   * @returns This, enabling chaining.
+   */
+  @boundAction
+  cancel(): this {
+    if (!this.isRunning) {
+      return this;
+    }
+    this.queue = [];
+    this.failable.cancel();
+    return this;
+  }
+
+  /**
+   * Cancels the running operation, if any, and every queued call, and then
+   * sets this Mutation back to idle, forgetting its last arguments, result and
+   * error.
+   * @returns This, enabling chaining.
+   */
+  @boundAction
+  reset(): this {
+    this.queue = [];
+    this.stopSettling();
+    cancel(this.failable);
+    this.failable.pending();
+    this.started = false;
+    this.lastArgs = undefined;
+    this.lastResult = undefined;
+    this.lastError = undefined;
+    return this;
+  }
+
+  /**
+   * Invokes one of the provided callbacks that corresponds this Mutation's
+   * current state. When idle, the `idle` callback is invoked if provided, or
+   * the `pending` callback otherwise.
+   * @param options An object of callbacks to be invoked according to the state.
+   * @returns The return value of whichever callback was selected.
+   */
+  match<A, B, C, D = C>(
+    options: Mutation.MatchOptions<Result, A, B, C, D, E>,
+  ): A | B | C | D {
+    if (this.isIdle && options.idle) {
+      return options.idle();
+    }
+    return this.failable.match(options);
+  }
+
+  /**
+   * Returns the result of the operation if it last succeeded, or the provided
+   * default value if it did not.
+   * @param defaultValue A possibly lazy value to use in case of non-success
+   * @returns This Mutation's result or the provided default value
+   */
+  successOr<U>(defaultValue: Lazy<U>): Result | U {
+    return this.failable.successOr(defaultValue);
+  }
+
+  /**
+   * Returns the error of the operation if it last failed, or the provided
+   * default value if it did not.
+   * @param defaultValue A possibly lazy value to use in case of non-failure
+   * @returns This Mutation's error or the provided default value
+   */
+  failureOr<U>(defaultValue: Lazy<U>): E | U {
+    return this.failable.failureOr(defaultValue);
+  }
+
+  /**
+   * Derives a ReadonlyFuture that syncs with this Mutation using the given
+   * options, like `Failable.derive`. An idle Mutation is derived as pending.
+   * @param options An object of transform functions to be invoked according
+   * to the state
+   * @returns A derived ReadonlyFuture
+   */
+  derive<U>(
+    options: Future.DeriveOptions.AtLeastFailure<Result, U, E>,
+  ): ReadonlyFuture<U, Error>;
+  derive<U>(options: Future.DeriveOptions<Result, U, E>): ReadonlyFuture<U, E>;
+  derive<U>(
+    options: Future.DeriveOptions<Result, U, E>,
+  ): ReadonlyFuture<U, Error> {
+    return this.failable.derive(options);
+  }
+
+  /**
+   * Creates a derived ReadonlyFuture that syncs with this Mutation, except
+   * results are first transformed using the provided function `f`, like
+   * `Failable.map`.
+   * @param f The success transformation function
+   * @param options Options that customize the derivation
+   * @returns A derived ReadonlyFuture
+   */
+  map<U>(
+    f: (value: Result) => U,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyFuture<U, E> {
+    return this.failable.map(f, options);
+  }
+
+  /**
+   * Creates a derived ReadonlyFuture that syncs with this Mutation, except
+   * errors are first transformed using the provided function `f`, like
+   * `Failable.rescue`.
+   * @param f The failure transformation function
+   * @param options Options that customize the derivation
+   * @returns A derived ReadonlyFuture
+   */
+  rescue<U = Result>(
+    f: (error: E) => U,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyFuture<U> {
+    return this.failable.rescue(f, options);
+  }
+
+  /**
+   * Creates a derived ReadonlyFuture that syncs with the Future returned by the
+   * provided function `f` for each result, like `Failable.flatMap`.
+   * @param f The function producing a Future or a promise
+   * @param options Options that customize the derivation
+   * @returns A derived ReadonlyFuture
+   */
+  flatMap<U>(
+    f: (value: Result) => ReadonlyFuture<U, E> | PromiseLike<U>,
+    options?: Future.DerivationOptions<U>,
+  ): ReadonlyFuture<U, E> {
+    return this.failable.flatMap(f, options);
+  }
+
+  /**
+   * Waits for this Mutation to be settled, meaning that it is neither idle
+   * nor running. Waiting can be cut short with the `timeoutMs` and `signal`
+   * options.
+   * @param options Options that limit how long to wait
+   * @returns A promise of this Mutation
+   */
+  whenSettled(options?: Future.WaitOptions): Promise<this> {
+    return whenSettled(this, () => !this.isPending, options);
+  }
+
+  /**
+   * Waits for this Mutation to be settled, like `whenSettled`, and then
+   * resolves with its result, or rejects with its error.
+   * @param options Options that limit how long to wait
+   * @returns A promise of this Mutation's result
+   */
+  toPromise(options?: Future.WaitOptions): Promise<Result> {
+    return toPromise(this, () => !this.isPending, options);
+  }
+
+  /**
+   * Invokes the given listener whenever the operation transitions from one
+   * state to another, like `Failable.onTransition`. Going back to idle is a
+   * transition to pending.
+   * @param listener The function to invoke on each transition
+   * @returns A function that stops listening
+   */
+  onTransition(listener: Future.TransitionListener<Result, E>): () => void {
+    return this.failable.onTransition(listener);
+  }
+
+  /**
+   * Disposes every ReadonlyFuture derived from this Mutation, and cancels the
+   * running operation, if any, without changing state.
+   */
+  dispose(): void {
+    this.queue = [];
+    this.stopSettling();
+    this.failable.dispose();
+  }
+}
+
+export namespace Mutation {
+  // tslint:disable-next-line:variable-name
+  export const Concurrency = Enum('drop', 'queue', 'supersede');
+  /**
+   * Concurrency decides what happens when `run` is called while the operation
+   * is still running. With `drop`, the default, the call is ignored. With
+   * `queue`, the call runs once the operation settles. With `supersede`, the
+   * running operation is aborted and its result is dropped.
+   */
+  export type Concurrency = Enum<typeof Concurrency>;
+
+  /**
+   * Options customizes a Mutation. Besides the concurrency mode, the options
+   * are passed along to `accept` whenever the operation runs.
+   */
+  export interface Options<Result, E extends Error = Error>
+    extends Future.AcceptOptions<Result, E> {
+    concurrency?: Concurrency;
+  }
+
+  /**
+   * MatchOptions is like `Future.MatchOptions`, with an optional `idle`
+   * callback.
+   */
+  export interface MatchOptions<T, A, B, C, D, E extends Error = Error>
+    extends Future.MatchOptions<T, A, B, C, E> {
+    idle?: () => D;
+  }
+}
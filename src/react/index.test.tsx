@@ -0,0 +1,144 @@
+import {getObserverTree} from 'mobx';
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+
+import {Match, useFuture} from '.';
+import {Failable} from '../failable';
+import {ReadonlyFuture} from '../future';
+import {Loadable} from '../loadable';
+
+describe('react', () => {
+  const failureValue = new Error('failed');
+
+  function render(element: React.ReactElement<any>) {
+    let renderer: TestRenderer.ReactTestRenderer | undefined;
+    TestRenderer.act(() => {
+      renderer = TestRenderer.create(element);
+    });
+    return renderer!;
+  }
+
+  function renderMatch(future: ReadonlyFuture<number>) {
+    return render(
+      <Match
+        future={future}
+        success={(value, loading) => `success ${value} ${loading}`}
+        failure={(error, loading) => `failure ${error.message} ${loading}`}
+        pending={loading => `pending ${loading}`}
+      />,
+    );
+  }
+
+  describe('Match', () => {
+    it('renders the callback of the current state', () => {
+      expect(renderMatch(Failable.success(3)).toJSON()).toBe('success 3 false');
+      expect(renderMatch(Failable.failure(failureValue)).toJSON()).toBe(
+        'failure failed false',
+      );
+      expect(renderMatch(new Failable<number>()).toJSON()).toBe('pending true');
+    });
+
+    it('forwards whether a Loadable is loading', () => {
+      const loadable = new Loadable<number>().success(3).loading();
+
+      expect(renderMatch(loadable).toJSON()).toBe('success 3 true');
+    });
+
+    it('re-renders as the Future changes', () => {
+      const failable = new Failable<number>();
+      const renderer = renderMatch(failable);
+
+      TestRenderer.act(() => {
+        failable.success(3);
+      });
+      expect(renderer.toJSON()).toBe('success 3 false');
+
+      TestRenderer.act(() => {
+        failable.failure(failureValue);
+      });
+      expect(renderer.toJSON()).toBe('failure failed false');
+    });
+
+    it('stops observing the Future once unmounted', () => {
+      const failable = new Failable<number>();
+      const renderer = renderMatch(failable);
+      TestRenderer.act(() => {
+        renderer.unmount();
+      });
+
+      expect(getObserverTree(failable, 'state').observers).toBeUndefined();
+    });
+  });
+
+  describe('useFuture', () => {
+    interface BoundaryState {
+      error?: Error;
+    }
+
+    class Boundary extends React.Component<{}, BoundaryState> {
+      state: BoundaryState = {};
+
+      static getDerivedStateFromError(error: Error): BoundaryState {
+        return {error};
+      }
+
+      render() {
+        return this.state.error
+          ? `caught ${this.state.error.message}`
+          : this.props.children;
+      }
+    }
+
+    function Value(props: {future: ReadonlyFuture<number>}) {
+      const future = useFuture(props.future, {suspense: true});
+      return <>{`value ${future.successOr(0)}`}</>;
+    }
+
+    function renderValue(future: ReadonlyFuture<number>) {
+      return render(
+        <Boundary>
+          <React.Suspense fallback="suspended">
+            <Value future={future} />
+          </React.Suspense>
+        </Boundary>,
+      );
+    }
+
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('suspends while the Future is pending', async () => {
+      const failable = new Failable<number>();
+      const renderer = renderValue(failable);
+      expect(renderer.toJSON()).toBe('suspended');
+
+      TestRenderer.act(() => {
+        failable.success(3);
+      });
+      await failable.whenSettled();
+      expect(renderer.toJSON()).toBe('value 3');
+    });
+
+    it('throws the error while the Future is a failure', () => {
+      const renderer = renderValue(Failable.failure(failureValue));
+
+      expect(renderer.toJSON()).toBe('caught failed');
+    });
+
+    it('renders a pending Future without suspense', () => {
+      function Plain(props: {future: ReadonlyFuture<number>}) {
+        const future = useFuture(props.future);
+        return <>{`pending ${future.isPending}`}</>;
+      }
+
+      expect(render(<Plain future={new Failable<number>()} />).toJSON()).toBe(
+        'pending true',
+      );
+    });
+  });
+});
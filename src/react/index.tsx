@@ -0,0 +1,98 @@
+import {reaction} from 'mobx';
+import * as React from 'react';
+
+import {ReadonlyFuture} from '../future';
+import {expose} from '../internal';
+
+/**
+ * UseFutureOptions customizes `useFuture`. With `suspense`, the component
+ * suspends while the Future is pending, by throwing a promise that resolves
+ * once it is settled, and throws the error while it is a failure, for the
+ * nearest error boundary to catch.
+ */
+export interface UseFutureOptions {
+  suspense?: boolean;
+}
+
+/**
+ * Reads the state and data of a Future, which are what rendering depends on.
+ */
+function snapshotOf(future: ReadonlyFuture<any, any>): any[] {
+  const {state, data} = expose(future);
+  return [state, data];
+}
+
+/**
+ * A hook that re-renders the component whenever the given Future changes
+ * state or data, so that the component needs no `observer`.
+ * @param future The Future to render
+ * @param options Options that customize how the Future is rendered
+ * @returns The given Future
+ */
+export function useFuture<F extends ReadonlyFuture<any, any>>(
+  future: F,
+  options: UseFutureOptions = {},
+): F {
+  const [, update] = React.useState(0);
+  const rendered = snapshotOf(future);
+
+  React.useEffect(
+    () => {
+      const rerender = () => update(version => version + 1);
+      const stop = reaction(() => snapshotOf(future), rerender);
+      // The Future may have changed between rendering and subscribing.
+      if (snapshotOf(future).some((value, i) => value !== rendered[i])) {
+        rerender();
+      }
+      return stop;
+    },
+    [future],
+  );
+
+  if (options.suspense) {
+    if (future.isPending) {
+      throw future.whenSettled();
+    }
+    if (future.isFailure) {
+      throw future.failureOr(undefined);
+    }
+  }
+  return future;
+}
+
+/**
+ * MatchProps are the props of `Match`: the Future to render, and a callback
+ * for each of its states, like the options of `match`. Each callback also
+ * receives whether the Future is loading, which for a Loadable is its
+ * `isLoading` flag, and for any other Future is whether it is pending.
+ */
+export interface MatchProps<T, E extends Error = Error> {
+  future: ReadonlyFuture<T, E>;
+  success: (value: T, loading: boolean) => React.ReactNode;
+  failure: (error: E, loading: boolean) => React.ReactNode;
+  pending: (loading: boolean) => React.ReactNode;
+}
+
+/**
+ * A component that renders whichever callback of its props corresponds to the
+ * current state of its Future, and re-renders as the Future changes.
+ */
+export function Match<T, E extends Error = Error>(
+  props: MatchProps<T, E>,
+): React.ReactElement<any> {
+  const future = useFuture(props.future);
+  const loading =
+    'isLoading' in future
+      ? (future as ReadonlyFuture<T, E> & {isLoading: boolean}).isLoading
+      : future.isPending;
+
+  return (
+    <>
+      {future.match({
+        success: value => props.success(value, loading),
+        failure: error => props.failure(error, loading),
+        pending: () => props.pending(loading),
+      })}
+    </>
+  );
+}
@@ -0,0 +1,31 @@
+/**
+ * Deferred is a promise along with the functions that settle it.
+ */
+export interface Deferred<T> {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Makes a promise that is settled from outside, through the functions returned
+ * along with it.
+ */
+export function deferred<T>(): Deferred<T> {
+  let resolve: (value: T) => void;
+  let reject: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  // Suppress unhandled rejections of the promise itself:
+  promise.catch(() => undefined);
+  return {promise, resolve: resolve!, reject: reject!};
+}
+
+/**
+ * Waits until the callbacks of every promise settled so far have run.
+ */
+export function settled(): Promise<void> {
+  return new Promise<void>(resolve => setTimeout(resolve, 0));
+}